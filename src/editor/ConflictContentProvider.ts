@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { SnippetStore } from '../storage/SnippetStore';
+import { SyncConflict, SyncValue } from '../storage/types';
+import { getLanguageExtension } from '../languages';
+
+export const CONFLICT_SCHEME = 'vs-snippets-conflict';
+
+export type ConflictSide = 'base' | 'local' | 'remote';
+
+/**
+ * Serves read-only documents with one side of a sync conflict, so both
+ * versions can be compared in VS Code's diff editor.
+ */
+export class ConflictContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(
+        private getStore: () => SnippetStore,
+        private decrypt: (value: string) => Promise<string> = async value => value
+    ) { }
+
+    static getUri(conflict: SyncConflict, side: ConflictSide, language: string = 'plaintext'): vscode.Uri {
+        const extension = conflict.field === 'code' ? getLanguageExtension(language) : 'txt';
+        const query = new URLSearchParams({ id: conflict.id, side });
+        return vscode.Uri.from({
+            scheme: CONFLICT_SCHEME,
+            path: `/${conflict.name.replace(/[\\/]/g, '-')} (${conflict.field}, ${side}).${extension}`,
+            query: query.toString()
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = new URLSearchParams(uri.query);
+        const conflict = (await this.getStore().getSyncState()).conflicts.find(c => c.id === query.get('id'));
+        if (!conflict) {
+            return '';
+        }
+        const text = formatSyncValue(conflict[(query.get('side') || 'local') as ConflictSide]);
+        return conflict.encrypted && (conflict.field === 'code' || conflict.field === 'notes') ? this.decrypt(text) : text;
+    }
+}
+
+export function formatSyncValue(value: SyncValue): string {
+    if (Array.isArray(value)) {
+        return value.join(', ');
+    }
+    return value ?? '';
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { SnippetStore } from '../storage/SnippetStore';
+import { GLOBAL_SCOPE } from '../storage/ProjectLibraries';
+import { getLanguageExtension } from '../languages';
+
+export const REVISION_SCHEME = 'vs-snippets-revision';
+
+// Shown in place of a revision ID for the snippet's current content
+const CURRENT_REVISION = 'current';
+
+/**
+ * Serves read-only documents with a snippet's current content or one of its
+ * earlier revisions, so they can be compared in VS Code's diff editor.
+ */
+export class RevisionContentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private getStore: (scope: string) => SnippetStore,
+        private decrypt: (value: string) => Promise<string> = async value => value
+    ) { }
+
+    static getUri(snippet: { id: string; name: string; language?: string }, scope: string, revisionId: string = CURRENT_REVISION): vscode.Uri {
+        const extension = getLanguageExtension(snippet.language || 'plaintext');
+        const query = new URLSearchParams({ scope, id: snippet.id, revision: revisionId });
+        return vscode.Uri.from({
+            scheme: REVISION_SCHEME,
+            path: `/${snippet.name.replace(/[\\/]/g, '-')}.${extension}`,
+            query: query.toString()
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = new URLSearchParams(uri.query);
+        const store = this.getStore(query.get('scope') || GLOBAL_SCOPE);
+        const snippetId = query.get('id') || '';
+        const revisionId = query.get('revision') || CURRENT_REVISION;
+
+        if (revisionId === CURRENT_REVISION) {
+            const snippet = await store.getSnippet(snippetId);
+            return snippet ? this.decrypt(snippet.code) : '';
+        }
+
+        const revision = (await store.getHistory(snippetId)).find(r => r.id === revisionId);
+        return revision ? this.decrypt(revision.code) : '';
+    }
+
+    // Re-reads any open history documents, e.g. after the snippet was edited or restored
+    refresh(): void {
+        vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === REVISION_SCHEME)
+            .forEach(document => this._onDidChange.fire(document.uri));
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
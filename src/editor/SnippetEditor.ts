@@ -2,7 +2,8 @@ import * as vscode from 'vscode';
 
 export class SnippetEditor {
     private static readonly viewType = 'text';
-    private static panels = new Map<string, vscode.WebviewPanel>();
+    // Open editors by snippet ID; `encrypted` if the snippet was encrypted when opened
+    private static panels = new Map<string, { panel: vscode.WebviewPanel; scope?: string; encrypted: boolean }>();
     private disposables: vscode.Disposable[] = [];
 
     constructor() {
@@ -25,12 +26,15 @@ export class SnippetEditor {
         notes: string;
         language?: string;
         tags?: string[];
+        scope?: string;
+        encrypted?: boolean;
     }) {
         // Check if panel already exists
-        const existingPanel = this.panels.get(snippet.id);
-        if (existingPanel) {
-            existingPanel.reveal();
-            return existingPanel;
+        const existing = this.panels.get(snippet.id);
+        if (existing) {
+            existing.encrypted = existing.encrypted || !!snippet.encrypted;
+            existing.panel.reveal();
+            return existing.panel;
         }
 
         // Create new panel for the snippet
@@ -45,7 +49,7 @@ export class SnippetEditor {
         );
 
         // Store the panel
-        this.panels.set(snippet.id, panel);
+        this.panels.set(snippet.id, { panel, scope: snippet.scope, encrypted: !!snippet.encrypted });
 
         // Remove from tracking when closed
         panel.onDidDispose(() => {
@@ -70,6 +74,7 @@ export class SnippetEditor {
 
                     await vscode.commands.executeCommand('snippets.updateSnippet', {
                         id: snippet.id,
+                        scope: snippet.scope,
                         code: message.code,
                         notes: message.notes,
                         language: message.language,
@@ -88,6 +93,32 @@ export class SnippetEditor {
         return panel;
     }
 
+    // Closes every editor showing a decrypted snippet, e.g. after locking.
+    // `isEncrypted` finds the snippets that were encrypted after their editor
+    // was opened, e.g. by another device.
+    static async closeEncrypted(isEncrypted: (id: string, scope?: string) => Promise<boolean>) {
+        for (const [id, open] of Array.from(this.panels)) {
+            if (open.encrypted || await isEncrypted(id, open.scope)) {
+                open.panel.dispose();
+            }
+        }
+    }
+
+    // Reloads an open editor after the snippet was changed elsewhere, e.g. restored from history
+    static async update(snippet: {
+        id: string;
+        name: string;
+        code: string;
+        notes: string;
+        language?: string;
+        tags?: string[];
+    }) {
+        const open = this.panels.get(snippet.id);
+        if (open) {
+            open.panel.webview.html = await this.getWebviewContent(snippet);
+        }
+    }
+
     private static async getWebviewContent(snippet: {
         name: string;
         code: string;
@@ -555,7 +586,7 @@ export class SnippetEditor {
 
     static disposeAll() {
         // Dispose all panels
-        for (const panel of this.panels.values()) {
+        for (const { panel } of Array.from(this.panels.values())) {
             panel.dispose();
         }
         this.panels.clear();
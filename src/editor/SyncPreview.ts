@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { SyncChange, SyncChangeAction, SyncPlan } from '../storage/merge';
+import { Folder, Snippet } from '../storage/types';
+
+export const SYNC_PREVIEW_SCHEME = 'vs-snippets-sync-preview';
+
+const ACTION_ICONS: { [action in SyncChangeAction]: string } = {
+    add: 'diff-added',
+    update: 'diff-modified',
+    delete: 'diff-removed',
+    conflict: 'warning'
+};
+
+const ACTION_LABELS: { [action in SyncChangeAction]: string } = {
+    add: 'Added',
+    update: 'Updated',
+    delete: 'Deleted',
+    conflict: 'Conflict'
+};
+
+/**
+ * Serves read-only documents with the local and the synced version of an item
+ * in the sync preview, so each change can be inspected in a diff editor.
+ */
+export class SyncPreviewContentProvider implements vscode.TextDocumentContentProvider {
+    private plan: SyncPlan | undefined;
+    private folderNames = new Map<string, string>();
+
+    constructor(private decrypt: (value: string) => Promise<string> = async value => value) { }
+
+    setPlan(plan: SyncPlan): void {
+        this.plan = plan;
+        this.folderNames = new Map(plan.folders.map(folder => [folder.id, folder.name]));
+        plan.changes
+            .filter(change => change.kind === 'folder' && change.before)
+            .forEach(change => this.folderNames.set(change.id, change.before!.name));
+    }
+
+    static getUri(change: SyncChange, side: 'before' | 'after'): vscode.Uri {
+        const query = new URLSearchParams({ key: change.key, side });
+        return vscode.Uri.from({
+            scheme: SYNC_PREVIEW_SCHEME,
+            path: `/${change.name.replace(/[\\/]/g, '-')} (${side === 'before' ? 'current' : 'after'}).txt`,
+            query: query.toString()
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = new URLSearchParams(uri.query);
+        const change = this.plan?.changes.find(c => c.key === query.get('key'));
+        const item = query.get('side') === 'before' ? change?.before : change?.after;
+        if (!change || !item) {
+            return '';
+        }
+        return change.kind === 'folder' ? this.describeFolder(item as Folder) : this.describeSnippet(item as Snippet);
+    }
+
+    private describeFolder(folder: Folder): string {
+        return [
+            `Name: ${folder.name}`,
+            `Parent folder: ${folder.parentId ? this.folderNames.get(folder.parentId) || folder.parentId : '(top level)'}`
+        ].join('\n') + '\n';
+    }
+
+    private async describeSnippet(snippet: Snippet): Promise<string> {
+        const code = snippet.encrypted ? await this.decrypt(snippet.code) : snippet.code;
+        const notes = snippet.encrypted ? await this.decrypt(snippet.notes || '') : snippet.notes || '';
+        return [
+            `Name: ${snippet.name}`,
+            `Folder: ${this.folderNames.get(snippet.folderId) || snippet.folderId}`,
+            `Language: ${snippet.language}`,
+            `Tags: ${(snippet.tags || []).join(', ')}`,
+            '',
+            code,
+            '',
+            '--- Notes ---',
+            notes
+        ].join('\n') + '\n';
+    }
+}
+
+/**
+ * Lists every change a sync would make, all checked, and lets the user untick
+ * the ones to skip. Each entry has a button that opens its diff. Resolves to
+ * the keys of the changes to apply, or undefined if the sync was cancelled.
+ */
+export function showSyncPreview(plan: SyncPlan, provider: SyncPreviewContentProvider, title: string = 'Sync Preview'): Promise<Set<string> | undefined> {
+    provider.setPlan(plan);
+    const diffButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Show Changes' };
+
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { change: SyncChange }>();
+    quickPick.title = title;
+    quickPick.placeholder = 'Untick the changes you don\'t want, then press Enter to apply the rest';
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = plan.changes.map(change => ({
+        label: `$(${ACTION_ICONS[change.action]}) ${change.name}`,
+        description: `${ACTION_LABELS[change.action]} ${change.kind}` + (change.fields.length > 0 ? `: ${change.fields.join(', ')}` : ''),
+        detail: change.action === 'conflict' ? 'Changed on both sides; this device\'s version is kept until you resolve it' : undefined,
+        buttons: [diffButton],
+        change
+    }));
+    quickPick.selectedItems = quickPick.items;
+
+    return new Promise(resolve => {
+        let result: Set<string> | undefined;
+        quickPick.onDidTriggerItemButton(async event => {
+            const change = event.item.change;
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                SyncPreviewContentProvider.getUri(change, 'before'),
+                SyncPreviewContentProvider.getUri(change, 'after'),
+                `${change.name}: Current ↔ ${title}`,
+                { preview: true, preserveFocus: true }
+            );
+        });
+        quickPick.onDidAccept(() => {
+            result = new Set(quickPick.selectedItems.map(item => item.change.key));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(result);
+        });
+        quickPick.show();
+    });
+}
+
+// e.g. "2 added, 1 updated, 1 conflicting"
+export function summarizeChanges(changes: SyncChange[]): string {
+    const counts = new Map<SyncChangeAction, number>();
+    changes.forEach(change => counts.set(change.action, (counts.get(change.action) || 0) + 1));
+    return (['add', 'update', 'delete', 'conflict'] as SyncChangeAction[])
+        .filter(action => counts.has(action))
+        .map(action => `${counts.get(action)} ${action === 'conflict' ? 'conflicting' : ACTION_LABELS[action].toLowerCase()}`)
+        .join(', ');
+}
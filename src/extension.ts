@@ -1,12 +1,45 @@
 import * as vscode from 'vscode';
 import { LocalStorage } from './storage/LocalStorage';
+import { FileTreeStorage } from './storage/FileTreeStorage';
+import { SnippetStore } from './storage/SnippetStore';
+import { Folder, LibraryData, Snippet, SnippetRevision, SyncConflict, SyncConflictField, SyncValue } from './storage/types';
+import { getFolderSubtree } from './storage/BaseStorage';
+import { GLOBAL_SCOPE, ProjectLibraries } from './storage/ProjectLibraries';
+import { transferItem, TransferMode } from './storage/transfer';
+import {
+    DEFAULT_LIBRARY,
+    getActiveLibrary,
+    getBackupFolder,
+    getLibraryPath,
+    listLibraries,
+    setActiveLibrary,
+    setBackupFolder,
+    validateLibraryName
+} from './storage/libraries';
 import { SnippetTreeDataProvider } from './sidebar/SnippetTreeDataProvider';
 import { SnippetEditor } from './editor/SnippetEditor';
+import { RevisionContentProvider, REVISION_SCHEME } from './editor/RevisionContentProvider';
+import { CONFLICT_SCHEME, ConflictContentProvider, formatSyncValue } from './editor/ConflictContentProvider';
+import { showSyncPreview, summarizeChanges, SYNC_PREVIEW_SCHEME, SyncPreviewContentProvider } from './editor/SyncPreview';
+import { formatSyncTime, SyncStatusBar } from './statusBar/SyncStatusBar';
 import * as fs from 'fs';
 import { SnippetTreeItem } from './sidebar/SnippetTreeItem';
 import * as path from 'path';
 import * as os from 'os';
 import { log, logError, showLog } from './logger';
+import { decodeLibrary, encodeLibrary } from './storage/interchange';
+import { getLocalOnlyFolder } from './storage/selectiveSync';
+import { ImportedSnippet, parseCodeSnippets, toCodeSnippets } from './storage/codeSnippets';
+import { parseMarkdown, planMarkdownImport, toMarkdown } from './storage/markdown';
+import { getGitBranch, GitSync } from './storage/GitSync';
+import { getHttpLibraryUrl, HttpSync, setHttpCredentials } from './storage/HttpSync';
+import { RemoteSync } from './storage/RemoteSync';
+import { planRestore, restoreSnapshot } from './storage/snapshots';
+import { previewSync, resolveSyncConflict, syncLibrary } from './storage/merge';
+import { createId, findIdCollisions, ImportMode } from './storage/ids';
+import { setDeviceId } from './storage/versions';
+import { isEncryptedValue, isInEncryptedFolder, Keyring } from './storage/encryption';
+import { checkLibrary, IntegrityIssue, ISSUE_KINDS, IssueKind, RECOVERED_FOLDER_NAME, repairLibrary } from './storage/integrity';
 
 
 
@@ -48,11 +81,11 @@ async function showWelcomeMessage(context: vscode.ExtensionContext): Promise<voi
                 if (folderResult && folderResult[0]) {
                     const folderPath = folderResult[0].fsPath;
 
-                    await vscode.workspace.getConfiguration('snippets').update('backupFolder', folderPath, vscode.ConfigurationTarget.Global);
+                    await setBackupFolder(getActiveLibrary(context), folderPath);
 
                     const backupPath = path.join(folderPath, 'snippets.json');
                     if (!await fileExists(backupPath)) {
-                        await fs.promises.writeFile(backupPath, JSON.stringify({ version: "1.0", data: [] }));
+                        await fs.promises.writeFile(backupPath, JSON.stringify(encodeLibrary({ folders: [], snippets: [] }), null, 2));
                     }
 
                     vscode.window.showInformationMessage(
@@ -68,9 +101,25 @@ async function showWelcomeMessage(context: vscode.ExtensionContext): Promise<voi
     }
 }
 
-async function autoSyncFromBackup(context: vscode.ExtensionContext, localStorage: LocalStorage, treeDataProvider: SnippetTreeDataProvider): Promise<void> {
+// Set while the dry-run notification is open; every tick would otherwise open
+// another one, and dismissing any of them would resume backups
+let backupChangesNotified = false;
+
+async function autoSyncFromBackup(
+    context: vscode.ExtensionContext,
+    localStorage: SnippetStore,
+    treeDataProvider: SnippetTreeDataProvider,
+    statusBar: SyncStatusBar,
+    force: boolean = false
+): Promise<void> {
     try {
-        const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
+        // The git and HTTP providers sync on their own
+        if (getSyncProvider() !== 'folder') {
+            return;
+        }
+
+        const library = getActiveLibrary(context);
+        const backupFolder = getBackupFolder(library);
         if (!backupFolder) {
 
             return;
@@ -86,67 +135,363 @@ async function autoSyncFromBackup(context: vscode.ExtensionContext, localStorage
         }
 
         // Get last sync timestamp
-        const lastSync = context.globalState.get<number>('vssnippets.lastSync') || 0;
+        const lastSync = context.globalState.get<number>(getLastSyncKey(library)) || 0;
 
         // Get backup file stats
         const stats = await fs.promises.stat(backupPath);
         const backupModified = stats.mtimeMs;
 
         // Only sync if backup is newer than last sync
-        if (backupModified <= lastSync) {
+        if (!force && backupModified <= lastSync) {
 
             return;
         }
 
 
-        const content = await fs.promises.readFile(backupPath, 'utf8');
-        const importedData = JSON.parse(content);
+        statusBar.setSyncing(true);
+        const remote = await readBackupFile(backupPath);
 
-        let folders: any[] = [];
-        let snippets: any[] = [];
+        // In dry-run mode, only tell the user what a sync would change
+        if (vscode.workspace.getConfiguration('snippets').get<boolean>('autoSyncDryRun')) {
+            const plan = await previewSync(localStorage, remote);
+            statusBar.setSyncing(false);
+            if (plan.changes.length > 0 && !backupChangesNotified) {
+                backupChangesNotified = true;
+                if (localStorage instanceof LocalStorage) {
+                    localStorage.holdBackup();
+                }
+                vscode.window.showInformationMessage(
+                    `The backup has changes that were not applied (${summarizeChanges(plan.changes)}). Backups are paused until you review or dismiss them.`,
+                    'Review Changes'
+                ).then(async choice => {
+                    // Backups resume however the notification ends, not only after a sync
+                    try {
+                        if (choice === 'Review Changes') {
+                            await vscode.commands.executeCommand('snippets.previewSync');
+                        }
+                    } finally {
+                        backupChangesNotified = false;
+                        if (localStorage instanceof LocalStorage) {
+                            localStorage.releaseBackup();
+                        }
+                    }
+                });
+            }
+            return;
+        }
 
-        if (importedData.version === "1.0" && Array.isArray(importedData.data)) {
+        // Merge the data into the current library, dropping anything deleted on either side
+        const conflicts = await syncLibrary(localStorage, remote);
 
-            importedData.data.forEach((item: any) => {
-                if (item.type === 'folder') {
-                    const { type, ...folderData } = item;
-                    folders.push(folderData);
-                } else {
-                    snippets.push(item);
-                }
-            });
+        // Update last sync timestamp
+        await context.globalState.update(getLastSyncKey(library), Date.now());
+
+        // Refresh the tree view
+        await treeDataProvider.refresh();
+        await statusBar.syncSucceeded();
+
+        if (conflicts.length > 0) {
+            notifyConflicts(conflicts.length);
         }
+    } catch (error) {
+        logError('Auto-sync error', error);
+        await statusBar.syncFailed(error);
+    }
+}
 
-        // Get current data
-        const currentData = await localStorage.getAllData();
+const DEVICE_ID_KEY = 'vssnippets.deviceId';
 
-        // Merge the data
-        const mergedFolders = mergeFolders(currentData.folders, folders);
-        const mergedSnippets = mergeSnippets(currentData.snippets, snippets);
+type SyncProvider = 'folder' | 'git' | 'http';
 
+function getSyncProvider(): SyncProvider {
+    const provider = vscode.workspace.getConfiguration('snippets').get<SyncProvider>('syncProvider');
+    return provider === 'git' || provider === 'http' ? provider : 'folder';
+}
 
+// The setting that points the git or HTTP provider at its remote, and what to
+// tell the user when it is empty
+const REMOTE_SETTINGS: { [provider in 'git' | 'http']: { setting: string; missing: string } } = {
+    git: {
+        setting: 'snippets.gitRemote',
+        missing: 'No git remote configured. Set "snippets.gitRemote" to a repository URL or path.'
+    },
+    http: {
+        setting: 'snippets.httpUrl',
+        missing: 'No sync server configured. Set "snippets.httpUrl" to the URL of a WebDAV folder.'
+    }
+};
+
+// Each library has its own git repository in the extension's storage, or its
+// own document on the sync server
+function createRemoteSync(context: vscode.ExtensionContext, store: SnippetStore): RemoteSync | undefined {
+    const provider = getSyncProvider();
+    if (provider === 'folder' || !(store instanceof LocalStorage)) {
+        return undefined;
+    }
+    const library = getActiveLibrary(context);
+    if (provider === 'http') {
+        return new HttpSync(getHttpLibraryUrl(library), context.secrets, store);
+    }
+    const repoPath = path.join(context.globalStorageUri.fsPath, 'git-sync', library.replace(/[^\w.-]+/g, '-'));
+    const remote = vscode.workspace.getConfiguration('snippets').get<string>('gitRemote') || undefined;
+    return new GitSync(repoPath, remote, getGitBranch(library), store);
+}
+
+// Syncs with the remote run one after another; two at once would upload
+// against the same fetched version, and one of them would fail
+let remoteSyncQueue: Promise<unknown> = Promise.resolve();
+
+function queueRemoteSync<T>(run: () => Promise<T>): Promise<T> {
+    const result = remoteSyncQueue.then(run);
+    remoteSyncQueue = result.catch(() => undefined);
+    return result;
+}
+
+// Fetches the git remote or the sync server, merges it into the library and
+// publishes the result. With a preview provider, the user reviews the changes first.
+async function syncWithRemote(
+    context: vscode.ExtensionContext,
+    remoteSync: RemoteSync,
+    store: SnippetStore,
+    treeDataProvider: SnippetTreeDataProvider,
+    statusBar: SyncStatusBar,
+    previewProvider?: SyncPreviewContentProvider
+): Promise<boolean> {
+    const provider = getSyncProvider() === 'http' ? 'http' : 'git';
+    if (!remoteSync.hasRemote) {
+        throw new Error(REMOTE_SETTINGS[provider].missing);
+    }
+    return queueRemoteSync(async () => {
+        statusBar.setSyncing(true);
+        const remote = await remoteSync.fetch();
+        if (remote && previewProvider) {
+            // Don't spin while the user reviews the changes
+            statusBar.setSyncing(false);
+            if (!await reviewAndSync(store, remote, previewProvider, treeDataProvider)) {
+                return false;
+            }
+            statusBar.setSyncing(true);
+        } else if (remote) {
+            const conflicts = await syncLibrary(store, remote);
+            await treeDataProvider.refresh();
+            if (conflicts.length > 0) {
+                notifyConflicts(conflicts.length);
+            }
+        }
+        await remoteSync.publish(await store.getAllData());
+        await context.globalState.update(getLastRemoteSyncKey(getActiveLibrary(context), provider), Date.now());
+        await statusBar.syncSucceeded();
+        return true;
+    });
+}
+
+async function autoSyncWithRemote(
+    context: vscode.ExtensionContext,
+    remoteSync: RemoteSync,
+    store: SnippetStore,
+    treeDataProvider: SnippetTreeDataProvider,
+    statusBar: SyncStatusBar
+): Promise<void> {
+    try {
+        if (!remoteSync.hasRemote) {
+            return;
+        }
+
+        if (vscode.workspace.getConfiguration('snippets').get<boolean>('autoSyncDryRun')) {
+            statusBar.setSyncing(true);
+            const plan = await queueRemoteSync(async () => {
+                const remote = await remoteSync.fetch();
+                return remote ? previewSync(store, remote) : undefined;
+            });
+            statusBar.setSyncing(false);
+            if (plan && plan.changes.length > 0) {
+                const choice = await vscode.window.showInformationMessage(
+                    `There are changes on ${remoteSync.label} that were not applied (${summarizeChanges(plan.changes)}).`,
+                    'Review Changes'
+                );
+                if (choice === 'Review Changes') {
+                    vscode.commands.executeCommand('snippets.previewSync');
+                }
+            }
+            return;
+        }
 
-        // Sync the merged data
-        await localStorage.syncData({
-            folders: mergedFolders,
-            snippets: mergedSnippets
+        await syncWithRemote(context, remoteSync, store, treeDataProvider, statusBar);
+    } catch (error) {
+        logError(`Sync with ${remoteSync.label} failed`, error);
+        await statusBar.syncFailed(error);
+        vscode.window.showWarningMessage(`Sync with ${remoteSync.label} failed: ` + (error instanceof Error ? error.message : error), 'Show Log').then(choice => {
+            if (choice === 'Show Log') {
+                showLog();
+            }
         });
+    }
+}
 
-        // Update last sync timestamp
-        await context.globalState.update('vssnippets.lastSync', Date.now());
+// Reads a backup file written by `LocalStorage`
+async function readBackupFile(backupPath: string): Promise<LibraryData> {
+    const content = await fs.promises.readFile(backupPath, 'utf8');
 
-        // Refresh the tree view
-        await treeDataProvider.refresh();
+    // Refuses data written by a newer version, so it's never merged into this library
+    return decodeLibrary(JSON.parse(content), 'The backup file');
+}
 
+// Shows what syncing with the remote data would change and applies the changes
+// the user keeps. Returns false if the sync was cancelled.
+async function reviewAndSync(
+    store: SnippetStore,
+    remote: LibraryData,
+    previewProvider: SyncPreviewContentProvider,
+    treeDataProvider: SnippetTreeDataProvider
+): Promise<boolean> {
+    const plan = await previewSync(store, remote);
+    if (plan.changes.length === 0) {
+        await syncLibrary(store, remote);
+        vscode.window.showInformationMessage('Your snippets are already in sync with the backup');
+        return true;
+    }
 
+    const selected = await showSyncPreview(plan, previewProvider);
+    if (!selected) {
+        return false;
+    }
+
+    const conflicts = await syncLibrary(store, remote, selected);
+    await treeDataProvider.refresh();
+    if (conflicts.length > 0) {
+        notifyConflicts(conflicts.length);
+    } else {
+        vscode.window.showInformationMessage(`Applied ${selected.size} of ${plan.changes.length} change(s) from the backup`);
+    }
+    return true;
+}
+
+function notifyConflicts(count: number): void {
+    vscode.window.showWarningMessage(
+        `Sync found ${count} conflicting change(s) made on this device and in the backup. Your local versions were kept for now.`,
+        'Resolve Conflicts'
+    ).then(choice => {
+        if (choice === 'Resolve Conflicts') {
+            vscode.commands.executeCommand('snippets.resolveConflicts');
+        }
+    });
+}
+
+const CONFLICT_FIELD_LABELS: { [field in SyncConflictField]: string } = {
+    name: 'Name',
+    folderId: 'Folder',
+    parentId: 'Parent folder',
+    code: 'Code',
+    notes: 'Notes',
+    tags: 'Tags',
+    language: 'Language'
+};
+
+function describeSyncValue(conflict: SyncConflict, value: SyncValue, folders: Folder[]): string {
+    if (conflict.field === 'folderId' || conflict.field === 'parentId') {
+        return value === null ? '(top level)' : folders.find(f => f.id === value)?.name || '(deleted folder)';
+    }
+    return formatSyncValue(value) || '(empty)';
+}
+
+// Asks which version of a conflicting field to keep. Code and notes are shown
+// side by side in a diff editor and can also be merged by hand.
+async function pickConflictResolution(
+    conflict: SyncConflict,
+    folders: Folder[],
+    language: string,
+    keyring: Keyring
+): Promise<SyncValue | undefined> {
+    const keepLocal = 'Keep This Device';
+    const useRemote = 'Use Backup';
+    const label = CONFLICT_FIELD_LABELS[conflict.field];
+
+    if (conflict.field !== 'code' && conflict.field !== 'notes') {
+        const picked = await vscode.window.showQuickPick([
+            { label: keepLocal, description: describeSyncValue(conflict, conflict.local, folders), value: conflict.local },
+            { label: useRemote, description: describeSyncValue(conflict, conflict.remote, folders), value: conflict.remote }
+        ], { placeHolder: `${label} of "${conflict.name}" was changed on this device and in the backup` });
+        return picked?.value;
+    }
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        ConflictContentProvider.getUri(conflict, 'remote', language),
+        ConflictContentProvider.getUri(conflict, 'local', language),
+        `${conflict.name} (${label}): Backup ↔ This Device`
+    );
+
+    const mergeManually = 'Merge Manually';
+    const choice = await vscode.window.showInformationMessage(
+        `${label} of "${conflict.name}" was changed on this device and in the backup. Which version do you want to keep?`,
+        keepLocal,
+        useRemote,
+        mergeManually
+    );
+    if (choice === keepLocal) {
+        return conflict.local;
+    }
+    if (choice === useRemote) {
+        return conflict.remote;
+    }
+    if (choice !== mergeManually) {
+        return undefined;
+    }
+
+    // Start from both versions with Git-style conflict markers
+    const reveal = async (value: SyncValue) => conflict.encrypted ? keyring.decrypt(formatSyncValue(value)) : formatSyncValue(value);
+    const document = await vscode.workspace.openTextDocument({
+        content: `<<<<<<< This Device\n${await reveal(conflict.local)}\n=======\n${await reveal(conflict.remote)}\n>>>>>>> Backup\n`,
+        language: conflict.field === 'code' ? language : 'markdown'
+    });
+    await vscode.window.showTextDocument(document);
+
+    const apply = await vscode.window.showInformationMessage(
+        `Edit the merged ${label.toLowerCase()} of "${conflict.name}", then apply it.`,
+        'Apply Merged Version'
+    );
+    if (!apply) {
+        return undefined;
+    }
+    const merged = document.getText();
+    return conflict.encrypted ? keyring.encrypt(merged) : merged;
+}
+
+function describeFix(kind: IssueKind, issues: IntegrityIssue[]): string {
+    switch (kind) {
+        case 'duplicateId':
+            return `Give ${issues.length} item(s) with a duplicate ID a new ID`;
+        case 'danglingParent':
+            return `Move ${issues.length} orphaned folder(s) into "${RECOVERED_FOLDER_NAME}"`;
+        case 'cycle':
+            return `Break ${issues.length} folder cycle(s) by moving a folder to the top level`;
+        case 'orphanSnippet':
+            return `Move ${issues.length} orphaned snippet(s) into "${RECOVERED_FOLDER_NAME}"`;
+        case 'duplicateOrder':
+            return `Renumber the order of ${issues.length} group(s) of folders`;
+    }
+}
+
+// Permanently deletes Trash entries older than `snippets.trashRetentionDays`
+async function purgeOldTrash(store: SnippetStore): Promise<void> {
+    const days = vscode.workspace.getConfiguration('snippets').get<number>('trashRetentionDays', 30);
+    if (!days || days <= 0) {
+        return;
+    }
+
+    try {
+        const purged = await store.purgeTrash(Date.now() - days * 24 * 60 * 60 * 1000);
+        if (purged > 0) {
+            log(`Purged ${purged} item(s) older than ${days} days from the Trash`);
+        }
     } catch (error) {
-        logError('Auto-sync error', error);
+        logError('Error purging Trash', error);
     }
 }
 
 // Add this function to watch for backup file changes
-function watchBackupFile(context: vscode.ExtensionContext, localStorage: LocalStorage, treeDataProvider: SnippetTreeDataProvider) {
-    const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
+function watchBackupFile(context: vscode.ExtensionContext, localStorage: SnippetStore, treeDataProvider: SnippetTreeDataProvider, statusBar: SyncStatusBar) {
+    const backupFolder = getBackupFolder(getActiveLibrary(context));
     if (!backupFolder) {
         return;
     }
@@ -157,13 +502,13 @@ function watchBackupFile(context: vscode.ExtensionContext, localStorage: LocalSt
     // Watch for changes to the backup file
     watcher.onDidChange(async () => {
 
-        await autoSyncFromBackup(context, localStorage, treeDataProvider);
+        await autoSyncFromBackup(context, localStorage, treeDataProvider, statusBar);
     });
 
     // Watch for creation of the backup file
     watcher.onDidCreate(async () => {
 
-        await autoSyncFromBackup(context, localStorage, treeDataProvider);
+        await autoSyncFromBackup(context, localStorage, treeDataProvider, statusBar);
     });
 
     return watcher;
@@ -171,32 +516,191 @@ function watchBackupFile(context: vscode.ExtensionContext, localStorage: LocalSt
 
 export async function activate(context: vscode.ExtensionContext) {
     try {
-        const localStorage = new LocalStorage();
-        const treeDataProvider = new SnippetTreeDataProvider(localStorage);
+        // Identifies this installation in the version vectors that order synced edits
+        let deviceId = context.globalState.get<string>(DEVICE_ID_KEY);
+        if (!deviceId) {
+            deviceId = createId();
+            await context.globalState.update(DEVICE_ID_KEY, deviceId);
+        }
+        setDeviceId(deviceId);
+
+        let localStorage = createStorage(getStorageFormat(), getActiveLibrary(context));
+        const projectLibraries = new ProjectLibraries();
+        const treeDataProvider = new SnippetTreeDataProvider(localStorage, projectLibraries);
+        context.subscriptions.push(projectLibraries);
+
+        // Pick up changes made to the library files by other windows or processes
+        const refreshOnExternalChange = (store: SnippetStore) => store instanceof LocalStorage
+            ? store.onDidChangeExternally(() => treeDataProvider.refresh())
+            : undefined;
+        let storeChangeListener = refreshOnExternalChange(localStorage);
+        context.subscriptions.push(
+            projectLibraries.onDidChangeExternally(() => treeDataProvider.refresh()),
+            { dispose: () => localStorage.dispose() }
+        );
+
+        // Items from a project library carry its scope; everything else is in the global library
+        const storeFor = (item?: { scope?: string }) => treeDataProvider.getStore(item?.scope);
+
+        const keyring = new Keyring(context.secrets, async () => {
+            const libraries = [await localStorage.getAllData()];
+            for (const library of projectLibraries.getLibraries()) {
+                if (await projectLibraries.exists(library.scope)) {
+                    libraries.push(await projectLibraries.getData(library.scope));
+                }
+            }
+            for (const { snippets } of libraries) {
+                const encrypted = snippets.find(s => s.encrypted && isEncryptedValue(s.code));
+                if (encrypted) {
+                    return encrypted.code;
+                }
+            }
+            return undefined;
+        });
+
+        // Decrypted copy of a snippet, asking for the passphrase if needed
+        const revealSnippet = async (snippet: Snippet): Promise<Snippet> => snippet.encrypted
+            ? { ...snippet, code: await keyring.decrypt(snippet.code), notes: await keyring.decrypt(snippet.notes) }
+            : snippet;
+
+        // Whether a snippet is encrypted now, for editors opened before it was
+        const isSnippetEncrypted = async (id: string, scope?: string): Promise<boolean> => {
+            try {
+                return !!(await storeFor({ scope }).getSnippet(id))?.encrypted;
+            } catch {
+                return false;
+            }
+        };
+
+        const revisionProvider = new RevisionContentProvider(scope => treeDataProvider.getStore(scope), value => keyring.decrypt(value));
+        context.subscriptions.push(
+            revisionProvider,
+            vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, revisionProvider)
+        );
+        const conflictProvider = new ConflictContentProvider(() => localStorage, value => keyring.decrypt(value));
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(CONFLICT_SCHEME, conflictProvider));
+        const syncPreviewProvider = new SyncPreviewContentProvider(value => keyring.decrypt(value));
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(SYNC_PREVIEW_SCHEME, syncPreviewProvider));
         const snippetEditor = new SnippetEditor();
 
+        // Sync state and last sync time of the active library
+        const syncStatusBar = new SyncStatusBar(async () => {
+            const library = getActiveLibrary(context);
+            const { conflicts } = await localStorage.getSyncState();
+            const provider = getSyncProvider();
+            if (provider === 'git') {
+                const remote = vscode.workspace.getConfiguration('snippets').get<string>('gitRemote') || undefined;
+                const lastSync = context.globalState.get<number>(getLastRemoteSyncKey(library, provider));
+                return { provider, location: remote, available: !!remote, lastSync, conflicts: conflicts.length };
+            }
+            if (provider === 'http') {
+                const url = getHttpLibraryUrl(library);
+                const lastSync = context.globalState.get<number>(getLastRemoteSyncKey(library, provider));
+                return { provider, location: url, available: !!url, lastSync, conflicts: conflicts.length };
+            }
+            const backupFolder = getBackupFolder(library);
+            return {
+                provider: 'folder',
+                location: backupFolder,
+                available: !!backupFolder && await fileExists(backupFolder),
+                lastSync: context.globalState.get<number>(getLastSyncKey(library)) || undefined,
+                conflicts: conflicts.length
+            };
+        }, 'snippets.showSyncStatus');
+        context.subscriptions.push(syncStatusBar);
+        await syncStatusBar.refresh();
+
         // Show welcome message first
         await showWelcomeMessage(context);
 
         // Then try to auto-sync
-        await autoSyncFromBackup(context, localStorage, treeDataProvider);
+        await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar);
 
-        // Set up file watcher for backup file
-        const watcher = watchBackupFile(context, localStorage, treeDataProvider);
-        if (watcher) {
-            context.subscriptions.push(watcher);
+        await purgeOldTrash(localStorage);
+        for (const library of projectLibraries.getLibraries()) {
+            if (await projectLibraries.exists(library.scope)) {
+                await purgeOldTrash(projectLibraries.getStore(library.scope));
+            }
         }
 
+        // Set up file watcher for the active library's backup file
+        let backupWatcher = watchBackupFile(context, localStorage, treeDataProvider, syncStatusBar);
+        const rewatchBackupFile = () => {
+            backupWatcher?.dispose();
+            backupWatcher = watchBackupFile(context, localStorage, treeDataProvider, syncStatusBar);
+        };
+        context.subscriptions.push({ dispose: () => backupWatcher?.dispose() });
+
+        // With the git provider, every change is committed and the library syncs with the git remote.
+        // With the HTTP provider, the library syncs with the server shortly after every change.
+        const startRemoteSync = () => {
+            const created = createRemoteSync(context, localStorage);
+            if (created instanceof HttpSync) {
+                created.onDidChangeLocally(() => {
+                    // In dry-run mode local changes wait for the next reviewed sync
+                    if (!vscode.workspace.getConfiguration('snippets').get<boolean>('autoSyncDryRun')) {
+                        autoSyncWithRemote(context, created, localStorage, treeDataProvider, syncStatusBar);
+                    }
+                });
+            }
+            if (created) {
+                // Fetching can take a while, so don't hold up activation
+                autoSyncWithRemote(context, created, localStorage, treeDataProvider, syncStatusBar);
+            }
+            return created;
+        };
+        let remoteSync = startRemoteSync();
+        const restartRemoteSync = () => {
+            remoteSync?.dispose();
+            remoteSync = startRemoteSync();
+        };
+        context.subscriptions.push({ dispose: () => remoteSync?.dispose() });
+
+        const updateTreeTitle = () => {
+            treeView.title = `VS Snippets: ${getActiveLibrary(context)}`;
+        };
+
+        // Closes the current library and opens another one (or the same one from a new location)
+        const openLibrary = async (library: string) => {
+            await setActiveLibrary(context, library);
+            storeChangeListener?.dispose();
+            localStorage.dispose();
+            localStorage = createStorage(getStorageFormat(), library);
+            storeChangeListener = refreshOnExternalChange(localStorage);
+            treeDataProvider.setStore(localStorage);
+            updateTreeTitle();
+            rewatchBackupFile();
+            await syncStatusBar.reset();
+            restartRemoteSync();
+            await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar);
+            await purgeOldTrash(localStorage);
+            await treeDataProvider.refresh();
+            log(`Opened library "${library}"`);
+        };
+
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+                projectLibraries.refresh();
+                await treeDataProvider.refresh();
+            })
+        );
+
         // Watch for configuration changes
         context.subscriptions.push(
             vscode.workspace.onDidChangeConfiguration(async e => {
-                if (e.affectsConfiguration('snippets.backupFolder')) {
-
-                    const watcher = watchBackupFile(context, localStorage, treeDataProvider);
-                    if (watcher) {
-                        context.subscriptions.push(watcher);
-                    }
-                    await autoSyncFromBackup(context, localStorage, treeDataProvider);
+                if (e.affectsConfiguration('snippets.storagePath')) {
+                    await openLibrary(getActiveLibrary(context));
+                } else if (e.affectsConfiguration('snippets.backupFolder') || e.affectsConfiguration('snippets.libraryBackupFolders')) {
+                    rewatchBackupFile();
+                    await syncStatusBar.reset();
+                    await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar);
+                } else if (e.affectsConfiguration('snippets.syncProvider')) {
+                    await syncStatusBar.reset();
+                    restartRemoteSync();
+                    await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar);
+                } else if (e.affectsConfiguration('snippets.gitRemote') || e.affectsConfiguration('snippets.gitBranch') || e.affectsConfiguration('snippets.httpUrl')) {
+                    await syncStatusBar.reset();
+                    restartRemoteSync();
                 }
             })
         );
@@ -217,118 +721,1014 @@ export async function activate(context: vscode.ExtensionContext) {
             if (result && result[0]) {
                 const folderPath = result[0].fsPath;
 
-                // Save the backup folder path to settings
-                await vscode.workspace.getConfiguration('snippets').update('backupFolder', folderPath, vscode.ConfigurationTarget.Global);
+                // Save the backup folder path for the active library
+                await setBackupFolder(getActiveLibrary(context), folderPath);
 
                 // Create snippets.json if it doesn't exist
                 const backupPath = path.join(folderPath, 'snippets.json');
                 if (!await fileExists(backupPath)) {
-                    await fs.promises.writeFile(backupPath, JSON.stringify({ version: "1.0", data: [] }));
+                    await fs.promises.writeFile(backupPath, JSON.stringify(encodeLibrary({ folders: [], snippets: [] }), null, 2));
                 }
 
                 vscode.window.showInformationMessage(
                     `Backup folder set to: ${folderPath}\n\nTip: To sync between computers, choose a folder in your cloud storage (Dropbox, Google Drive, etc).`
                 );
 
-                // Set up new file watcher
-                const watcher = watchBackupFile(context, localStorage, treeDataProvider);
-                if (watcher) {
-                    context.subscriptions.push(watcher);
-                }
+                // Set up new file watcher
+                rewatchBackupFile();
+
+                // Trigger auto-sync immediately after setting backup folder
+                await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar);
+            }
+        });
+
+
+
+        // Register the moveToRoot command
+        let moveToRootCommand = vscode.commands.registerCommand('snippets.moveToRoot', async (item: SnippetTreeItem) => {
+            try {
+                // Get the folder ID from the tree item
+                const folderId = item.id;
+                if (!folderId) {
+                    return;
+                }
+
+                // Move the folder to root
+                await storeFor(item).moveFolder(folderId, '');
+
+                // Refresh the tree view
+                treeDataProvider.refresh();
+
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to move folder to root: ${error}`);
+            }
+        });
+
+        // Register move up/down commands
+        let moveUpCommand = vscode.commands.registerCommand('snippets.moveUp', async (item: SnippetTreeItem) => {
+            try {
+                await storeFor(item).updateFolderOrder(item.id, 'up');
+                treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to move folder up: ${error}`);
+            }
+        });
+
+        let moveDownCommand = vscode.commands.registerCommand('snippets.moveDown', async (item: SnippetTreeItem) => {
+            try {
+                await storeFor(item).updateFolderOrder(item.id, 'down');
+                treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to move folder down: ${error}`);
+            }
+        });
+
+
+
+        const showLogCommand = vscode.commands.registerCommand('snippets.showLog', () => showLog());
+
+        const convertStorageFormatCommand = vscode.commands.registerCommand('snippets.convertStorageFormat', async () => {
+            const currentFormat = getStorageFormat();
+            const items: (vscode.QuickPickItem & { format: StorageFormat })[] = [
+                { label: 'JSON files', description: 'folders.json and snippets.json', format: 'json' },
+                { label: 'One file per snippet', description: 'Source files with .meta.json sidecars, git friendly', format: 'files' }
+            ];
+            const selected = await vscode.window.showQuickPick(
+                items.filter(item => item.format !== currentFormat),
+                { placeHolder: `Your library is stored as ${currentFormat === 'json' ? 'JSON files' : 'one file per snippet'}. Convert it to:` }
+            );
+            if (!selected) {
+                return;
+            }
+
+            const confirmed = await vscode.window.showWarningMessage(
+                `Copy your library to the "${selected.label}" format and switch to it? Existing data in that format will be replaced.`,
+                { modal: true },
+                'Convert'
+            );
+            if (confirmed !== 'Convert') {
+                return;
+            }
+
+            try {
+                const data = await localStorage.getAllData();
+                const target = createStorage(selected.format, getActiveLibrary(context));
+                await target.syncData(data);
+                // The new store is opened from disk right after
+                if (target instanceof LocalStorage) {
+                    await target.flushWrites();
+                }
+                target.dispose();
+
+                await vscode.workspace.getConfiguration('snippets').update('storageFormat', selected.format, vscode.ConfigurationTarget.Global);
+                log(`Converted library (${data.folders.length} folders, ${data.snippets.length} snippets) to "${selected.format}" format`);
+
+                await openLibrary(getActiveLibrary(context));
+                vscode.window.showInformationMessage(`Library converted to the "${selected.label}" format.`);
+            } catch (error) {
+                logError('Error converting storage format', error);
+                vscode.window.showErrorMessage('Failed to convert library: ' + error);
+            }
+        });
+
+        const duplicateSnippetCommand = vscode.commands.registerCommand('snippets.duplicateSnippet', async (item: SnippetTreeItem) => {
+            try {
+                await storeFor(item).duplicateSnippet(item.id);
+                treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to duplicate snippet: ' + error);
+            }
+        });
+
+        const copyToClipboardCommand = vscode.commands.registerCommand('snippets.copyToClipboard', async (item: SnippetTreeItem) => {
+            try {
+                const snippet = await storeFor(item).getSnippet(item.id);
+                if (snippet) {
+                    await vscode.env.clipboard.writeText((await revealSnippet(snippet)).code);
+                    vscode.window.showInformationMessage(`Copied "${snippet.name}" to clipboard`);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to copy snippet: ' + error);
+            }
+        });
+
+        const insertSnippetCommand = vscode.commands.registerCommand('snippets.insertSnippet', async (item: SnippetTreeItem) => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No active editor — open a file first, then insert the snippet.');
+                return;
+            }
+            try {
+                const snippet = await storeFor(item).getSnippet(item.id);
+                if (snippet) {
+                    await editor.insertSnippet(new vscode.SnippetString((await revealSnippet(snippet)).code));
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to insert snippet: ' + error);
+            }
+        });
+
+        const togglePinCommand = vscode.commands.registerCommand('snippets.togglePin', async (item: SnippetTreeItem) => {
+            try {
+                await storeFor(item).togglePinSnippet(item.id);
+                treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to toggle pin: ' + error);
+            }
+        });
+
+        // Reviews what syncing with the active library's backup file would change
+        const previewSyncCommand = vscode.commands.registerCommand('snippets.previewSync', async () => {
+            try {
+                if (remoteSync) {
+                    await syncWithRemote(context, remoteSync, localStorage, treeDataProvider, syncStatusBar, syncPreviewProvider);
+                    return;
+                }
+
+                const library = getActiveLibrary(context);
+                const backupFolder = getBackupFolder(library);
+                const backupPath = backupFolder ? path.join(backupFolder, 'snippets.json') : undefined;
+                if (!backupPath || !await fileExists(backupPath)) {
+                    vscode.window.showWarningMessage('There is no backup file to sync from. Configure a backup folder first.');
+                    return;
+                }
+
+                const remote = await readBackupFile(backupPath);
+                if (await reviewAndSync(localStorage, remote, syncPreviewProvider, treeDataProvider)) {
+                    await context.globalState.update(getLastSyncKey(library), Date.now());
+                    if (localStorage instanceof LocalStorage) {
+                        localStorage.releaseBackup();
+                    }
+                    await syncStatusBar.syncSucceeded();
+                }
+            } catch (error) {
+                logError('Sync preview error', error);
+                await syncStatusBar.syncFailed(error);
+                vscode.window.showErrorMessage('Failed to preview sync: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        // Syncs right away, even if the backup file hasn't changed since the last sync
+        const syncNowCommand = vscode.commands.registerCommand('snippets.syncNow', async () => {
+            // In dry-run mode nothing is applied without a review
+            if (vscode.workspace.getConfiguration('snippets').get<boolean>('autoSyncDryRun')) {
+                await vscode.commands.executeCommand('snippets.previewSync');
+                return;
+            }
+
+            const provider = getSyncProvider();
+            if (provider !== 'folder') {
+                if (!remoteSync?.hasRemote) {
+                    const { setting, missing } = REMOTE_SETTINGS[provider];
+                    const choice = await vscode.window.showWarningMessage(missing, 'Configure');
+                    if (choice === 'Configure') {
+                        await vscode.commands.executeCommand('workbench.action.openSettings', setting);
+                    }
+                    return;
+                }
+                await autoSyncWithRemote(context, remoteSync, localStorage, treeDataProvider, syncStatusBar);
+                return;
+            }
+
+            const backupFolder = getBackupFolder(getActiveLibrary(context));
+            if (!backupFolder || !await fileExists(path.join(backupFolder, 'snippets.json'))) {
+                const choice = await vscode.window.showWarningMessage('There is no backup file to sync from. Configure a backup folder first.', 'Configure Backup Folder');
+                if (choice === 'Configure Backup Folder') {
+                    await vscode.commands.executeCommand('snippets.configureBackupFolder');
+                }
+                return;
+            }
+            await autoSyncFromBackup(context, localStorage, treeDataProvider, syncStatusBar, true);
+        });
+
+        // Quick actions behind the sync status bar item
+        const showSyncStatusCommand = vscode.commands.registerCommand('snippets.showSyncStatus', async () => {
+            await syncStatusBar.refresh();
+            const backupFolder = getSyncProvider() === 'folder' ? getBackupFolder(getActiveLibrary(context)) : undefined;
+            const lastSync = syncStatusBar.lastSync;
+
+            const items: (vscode.QuickPickItem & { run: () => Thenable<unknown> })[] = [
+                { label: '$(sync) Sync Now', run: () => vscode.commands.executeCommand('snippets.syncNow') }
+            ];
+            if (syncStatusBar.status === 'conflicts') {
+                items.push({ label: '$(warning) Resolve Sync Conflicts', run: () => vscode.commands.executeCommand('snippets.resolveConflicts') });
+            }
+            if (backupFolder && await fileExists(backupFolder)) {
+                items.push({ label: '$(folder-opened) Open Backup Folder', description: backupFolder, run: () => vscode.env.openExternal(vscode.Uri.file(backupFolder)) });
+            }
+            if (getSyncProvider() === 'http') {
+                items.push({ label: '$(key) Set Sync Server Credentials', run: () => vscode.commands.executeCommand('snippets.setSyncCredentials') });
+            }
+            items.push(
+                { label: '$(output) Show Log', run: async () => showLog() },
+                { label: '$(gear) Configure', description: 'Sync provider, backup folder, git remote, sync server', run: () => vscode.commands.executeCommand('workbench.action.openSettings', '@ext:petercsipkay.vs-snippets') }
+            );
+
+            const picked = await vscode.window.showQuickPick(items, {
+                title: `Snippet Sync: ${getActiveLibrary(context)}`,
+                placeHolder: syncStatusBar.error
+                    ? `Last sync failed: ${syncStatusBar.error}`
+                    : lastSync ? `Last synced ${formatSyncTime(lastSync)}` : 'Not synced yet'
+            });
+            if (picked) {
+                await picked.run();
+            }
+        });
+
+        // Stores the user name and password (or token) for the HTTP sync server in SecretStorage
+        const setSyncCredentialsCommand = vscode.commands.registerCommand('snippets.setSyncCredentials', async () => {
+            try {
+                const url = getHttpLibraryUrl(getActiveLibrary(context));
+                if (!url) {
+                    const choice = await vscode.window.showWarningMessage(REMOTE_SETTINGS.http.missing, 'Configure');
+                    if (choice === 'Configure') {
+                        await vscode.commands.executeCommand('workbench.action.openSettings', REMOTE_SETTINGS.http.setting);
+                    }
+                    return;
+                }
+
+                const server = new URL(url).origin;
+                const username = await vscode.window.showInputBox({
+                    title: `Sync Server Credentials: ${server}`,
+                    prompt: 'User name. Leave empty to sign in with a token only.'
+                });
+                if (username === undefined) {
+                    return;
+                }
+                const password = await vscode.window.showInputBox({
+                    title: `Sync Server Credentials: ${server}`,
+                    prompt: username ? `Password for ${username}` : 'Access token. Leave empty to remove the stored credentials.',
+                    password: true
+                });
+                if (password === undefined) {
+                    return;
+                }
+
+                const credentials = username || password ? { username, password } : undefined;
+                await setHttpCredentials(context.secrets, url, credentials);
+                vscode.window.showInformationMessage(credentials ? `Credentials for ${server} saved.` : `Credentials for ${server} removed.`);
+                if (credentials && remoteSync) {
+                    await autoSyncWithRemote(context, remoteSync, localStorage, treeDataProvider, syncStatusBar);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to save credentials: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        // Shows what restoring a snapshot would change, then restores the changes the user keeps
+        const restoreSnapshotCommand = vscode.commands.registerCommand('snippets.restoreSnapshot', async () => {
+            try {
+                const store = localStorage;
+                const snapshots = await store.getSnapshots();
+                if (snapshots.length === 0) {
+                    vscode.window.showInformationMessage('There are no snapshots of this library yet');
+                    return;
+                }
+
+                const picked = await vscode.window.showQuickPick(snapshots.map(snapshot => ({
+                    label: new Date(snapshot.timestamp).toLocaleString(),
+                    description: snapshot.reason,
+                    detail: `${snapshot.folderCount} folders, ${snapshot.snippetCount} snippets`,
+                    snapshot
+                })), { placeHolder: 'Select a snapshot to restore' });
+                if (!picked) {
+                    return;
+                }
+
+                const snapshot = await store.readSnapshot(picked.snapshot.id);
+                const plan = planRestore(await store.getAllData(), snapshot);
+                if (plan.changes.length === 0) {
+                    vscode.window.showInformationMessage('The library is the same as in this snapshot');
+                    return;
+                }
+
+                const selected = await showSyncPreview(plan, syncPreviewProvider, `Restore Snapshot of ${picked.label}`);
+                if (!selected) {
+                    return;
+                }
+
+                await restoreSnapshot(store, snapshot, selected);
+                await treeDataProvider.refresh();
+                vscode.window.showInformationMessage(`Restored ${selected.size} of ${plan.changes.length} change(s) from the snapshot`);
+            } catch (error) {
+                logError('Restore snapshot error', error);
+                vscode.window.showErrorMessage('Failed to restore snapshot: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        // Goes through the conflicts left by syncing until all are resolved or the user stops
+        const resolveConflictsCommand = vscode.commands.registerCommand('snippets.resolveConflicts', async () => {
+            try {
+                const store = localStorage;
+                for (;;) {
+                    const { conflicts } = await store.getSyncState();
+                    if (conflicts.length === 0) {
+                        vscode.window.showInformationMessage('There are no sync conflicts to resolve');
+                        return;
+                    }
+
+                    const folders = await store.getFolders();
+                    const picked = await vscode.window.showQuickPick(conflicts.map(conflict => ({
+                        label: `$(${conflict.kind === 'folder' ? 'folder' : 'symbol-snippet'}) ${conflict.name}`,
+                        description: CONFLICT_FIELD_LABELS[conflict.field],
+                        detail: conflict.field === 'code' || conflict.field === 'notes'
+                            ? 'Compare both versions in a diff editor'
+                            : `This device: ${describeSyncValue(conflict, conflict.local, folders)} · Backup: ${describeSyncValue(conflict, conflict.remote, folders)}`,
+                        conflict
+                    })), { placeHolder: `${conflicts.length} sync conflict(s): pick one to resolve` });
+                    if (!picked) {
+                        return;
+                    }
+
+                    const conflict = picked.conflict;
+                    const snippet = conflict.kind === 'snippet' ? await store.getSnippet(conflict.itemId) : undefined;
+                    const value = await pickConflictResolution(conflict, folders, snippet?.language || 'plaintext', keyring);
+                    if (value === undefined) {
+                        return;
+                    }
+
+                    await resolveSyncConflict(store, conflict.id, value);
+                    treeDataProvider.refresh();
+                    await syncStatusBar.refresh();
+                    const updated = snippet ? await store.getSnippet(snippet.id) : undefined;
+                    if (updated) {
+                        await SnippetEditor.update(await revealSnippet(updated));
+                    }
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to resolve sync conflicts: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        const checkLibraryCommand = vscode.commands.registerCommand('snippets.checkLibrary', async () => {
+            try {
+                // Project libraries can be checked too
+                const existingProjects = [];
+                for (const library of projectLibraries.getLibraries()) {
+                    if (await projectLibraries.exists(library.scope)) {
+                        existingProjects.push(library);
+                    }
+                }
+                let scope = GLOBAL_SCOPE;
+                if (existingProjects.length > 0) {
+                    const picked = await vscode.window.showQuickPick([
+                        { label: 'Global Snippets', scope: GLOBAL_SCOPE },
+                        ...existingProjects.map(library => ({ label: `Project: ${library.name}`, scope: library.scope }))
+                    ], { placeHolder: 'Select the library to check' });
+                    if (!picked) {
+                        return;
+                    }
+                    scope = picked.scope;
+                }
+
+                const store = storeFor({ scope });
+                const issues = checkLibrary(await store.getAllData());
+                if (issues.length === 0) {
+                    vscode.window.showInformationMessage(`No problems found in ${treeDataProvider.getScopeLabel(scope)}.`);
+                    return;
+                }
+
+                log(`Library check found ${issues.length} problem(s):`);
+                issues.forEach(issue => log(`  - ${issue.message}`));
+
+                const byKind = (kind: IssueKind) => issues.filter(issue => issue.kind === kind);
+                const fixes = ISSUE_KINDS
+                    .filter(kind => byKind(kind).length > 0)
+                    .map(kind => ({
+                        label: describeFix(kind, byKind(kind)),
+                        detail: byKind(kind).slice(0, 3).map(issue => issue.message).join(' · ') + (byKind(kind).length > 3 ? ' · …' : ''),
+                        picked: true,
+                        issueKind: kind
+                    }));
+
+                showLog();
+                const selected = await vscode.window.showQuickPick(fixes, {
+                    canPickMany: true,
+                    placeHolder: `Found ${issues.length} problem(s), listed in the log. Select the fixes to apply.`
+                });
+                if (!selected || selected.length === 0) {
+                    return;
+                }
+
+                await store.transaction(draft => repairLibrary(draft, new Set(selected.map(fix => fix.issueKind))));
+                const remaining = checkLibrary(await store.getAllData()).length;
+                log(`Library repaired; ${remaining} problem(s) left`);
+                await treeDataProvider.refresh();
+                vscode.window.showInformationMessage(remaining === 0
+                    ? 'Library repaired.'
+                    : `Library repaired; ${remaining} problem(s) left. Run Check Library again for details.`);
+            } catch (error) {
+                logError('Library check failed', error);
+                vscode.window.showErrorMessage('Failed to check library: ' + error);
+            }
+        });
+
+        const toggleEncryptionCommand = vscode.commands.registerCommand('snippets.toggleEncryption', async (item: SnippetTreeItem) => {
+            try {
+                const store = storeFor(item);
+                const data = await store.getAllData();
+                const encrypt = !item.encrypted;
+
+                // Snippets affected: the snippet itself, or everything in the folder
+                const folderIds = item.type === 'folder'
+                    ? new Set(getFolderSubtree(data.folders, item.id).map(f => f.id))
+                    : new Set<string>();
+                const targets = data.snippets.filter(s => item.type === 'folder'
+                    ? folderIds.has(s.folderId) && !!s.encrypted !== encrypt
+                    : s.id === item.id);
+
+                if (!encrypt) {
+                    const confirmed = await vscode.window.showWarningMessage(
+                        `Remove encryption from "${item.label}"? Its content will be stored in plain text again.`,
+                        { modal: true },
+                        'Decrypt'
+                    );
+                    if (confirmed !== 'Decrypt') {
+                        return;
+                    }
+                } else {
+                    // History, snapshots and recovery copies are rewritten below; these can't be
+                    const targetIds = new Set(targets.map(s => s.id));
+                    const plainCopies: string[] = [];
+                    if ((await store.getTrash()).some(entry => entry.snippets.some(s => !s.encrypted && (targetIds.has(s.id) || folderIds.has(s.folderId))))) {
+                        plainCopies.push('deleted snippets in the Trash');
+                    }
+                    if (item.scope === GLOBAL_SCOPE && getSyncProvider() === 'git') {
+                        plainCopies.push('the history of the git sync repository and its remote');
+                    }
+                    if (plainCopies.length > 0) {
+                        const confirmed = await vscode.window.showWarningMessage(
+                            `Encrypt "${item.label}"? Earlier versions are removed from its history and snapshots, but these still hold them in plain text: ${plainCopies.join('; ')}.`,
+                            { modal: true },
+                            'Encrypt'
+                        );
+                        if (confirmed !== 'Encrypt') {
+                            return;
+                        }
+                    }
+                }
+
+                // Encrypt or decrypt before touching the library, since this may ask for the passphrase
+                const converted = new Map<string, { code: string; notes: string; lastModified: number }>();
+                for (const snippet of targets) {
+                    converted.set(snippet.id, {
+                        code: encrypt ? await keyring.encrypt(snippet.code) : await keyring.decrypt(snippet.code),
+                        notes: encrypt ? await keyring.encrypt(snippet.notes || '') : await keyring.decrypt(snippet.notes || ''),
+                        lastModified: snippet.lastModified
+                    });
+                }
+
+                await store.transaction(draft => {
+                    draft.snippets = draft.snippets.map(snippet => {
+                        const update = converted.get(snippet.id);
+                        if (!update) {
+                            return snippet;
+                        }
+                        if (snippet.lastModified !== update.lastModified) {
+                            throw new Error(`"${snippet.name}" was changed meanwhile, please try again`);
+                        }
+                        return { ...snippet, code: update.code, notes: update.notes, encrypted: encrypt || undefined, lastModified: Date.now() };
+                    });
+                    if (item.type === 'folder') {
+                        draft.folders = draft.folders.map(folder => folderIds.has(folder.id)
+                            ? { ...folder, encrypted: (encrypt && folder.id === item.id) || undefined, lastModified: Date.now() }
+                            : folder);
+                    }
+                });
+
+                // Earlier versions would still hold the plain text
+                if (encrypt) {
+                    await store.discardEarlierCopies(targets.map(s => s.id));
+                }
+
+                await SnippetEditor.closeEncrypted(isSnippetEncrypted);
+                treeDataProvider.refresh();
+                vscode.window.showInformationMessage(encrypt ? `Encrypted "${item.label}"` : `Removed encryption from "${item.label}"`);
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to change encryption: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        const toggleFolderSyncCommand = vscode.commands.registerCommand('snippets.toggleFolderSync', async (item: SnippetTreeItem) => {
+            try {
+                if (item.scope !== GLOBAL_SCOPE) {
+                    vscode.window.showInformationMessage('Project snippets are stored in the workspace and aren\'t synced.');
+                    return;
+                }
+
+                const data = await localStorage.getAllData();
+                const folder = data.folders.find(f => f.id === item.id);
+                if (!folder) {
+                    throw new Error('Folder not found');
+                }
+                const marked = getLocalOnlyFolder(data.folders, folder.id);
+                if (marked && marked !== folder) {
+                    // Inherited; only the folder that is marked can change it
+                    vscode.window.showInformationMessage(
+                        `"${folder.name}" is inside "${marked.name}", which is kept on this device. Sync that folder to sync this one.`
+                    );
+                    return;
+                }
+
+                const localOnly = !folder.localOnly;
+                await localStorage.transaction(draft => {
+                    draft.folders = draft.folders.map(f => f.id === folder.id
+                        ? { ...f, localOnly: localOnly || undefined, lastModified: Date.now() }
+                        : f);
+                });
+
+                treeDataProvider.refresh();
+                vscode.window.showInformationMessage(localOnly
+                    ? `"${folder.name}" and everything in it are now kept on this device and won't be synced.`
+                    : `"${folder.name}" will be synced again.`);
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to change folder sync: ' + (error instanceof Error ? error.message : error));
+            }
+        });
+
+        const lockEncryptedCommand = vscode.commands.registerCommand('snippets.lockEncrypted', async () => {
+            await keyring.lock();
+            await SnippetEditor.closeEncrypted(isSnippetEncrypted);
+            vscode.window.showInformationMessage('Encrypted snippets locked. You will be asked for your passphrase on next use.');
+        });
+
+        // Lets the user pick one of a snippet's earlier versions
+        const pickRevision = async (item: SnippetTreeItem, placeHolder: string): Promise<SnippetRevision | undefined> => {
+            const history = await storeFor(item).getHistory(item.id);
+            if (history.length === 0) {
+                vscode.window.showInformationMessage(`"${item.label}" has no earlier versions yet.`);
+                return undefined;
+            }
+
+            const picked = await vscode.window.showQuickPick(history.map(revision => ({
+                label: new Date(revision.timestamp).toLocaleString(),
+                description: revision.encrypted ? revision.language : `${revision.language} · ${revision.code.split('\n').length} lines`,
+                detail: revision.encrypted ? '$(lock) Encrypted' : revision.code.trim().split('\n')[0],
+                revision
+            })), { placeHolder });
+            return picked?.revision;
+        };
+
+        const showHistoryCommand = vscode.commands.registerCommand('snippets.showHistory', async (item: SnippetTreeItem) => {
+            try {
+                const snippet = await storeFor(item).getSnippet(item.id);
+                if (!snippet) {
+                    vscode.window.showErrorMessage('Snippet not found');
+                    return;
+                }
+                const revision = await pickRevision(item, 'Select a version to compare with the current one');
+                if (!revision) {
+                    return;
+                }
+
+                const scope = item.scope || GLOBAL_SCOPE;
+                await vscode.commands.executeCommand(
+                    'vscode.diff',
+                    RevisionContentProvider.getUri({ ...snippet, language: revision.language }, scope, revision.id),
+                    RevisionContentProvider.getUri(snippet, scope),
+                    `${snippet.name} (${new Date(revision.timestamp).toLocaleString()} ↔ Current)`
+                );
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to show history: ' + error);
+            }
+        });
+
+        const restoreRevisionCommand = vscode.commands.registerCommand('snippets.restoreRevision', async (item: SnippetTreeItem) => {
+            try {
+                const revision = await pickRevision(item, 'Select the version to restore');
+                if (!revision) {
+                    return;
+                }
+
+                const confirm = await vscode.window.showWarningMessage(
+                    `Restore "${item.label}" to the version from ${new Date(revision.timestamp).toLocaleString()}? The current version is kept in the history.`,
+                    { modal: true },
+                    'Restore'
+                );
+                if (confirm !== 'Restore') {
+                    return;
+                }
+
+                const store = storeFor(item);
+                await store.restoreRevision(item.id, revision.id);
+                const snippet = await store.getSnippet(item.id);
+                if (snippet) {
+                    await SnippetEditor.update(await revealSnippet(snippet));
+                }
+                revisionProvider.refresh();
+                treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage('Failed to restore snippet: ' + error);
+            }
+        });
+
+        // Moves or copies an item between the global library and a project library
+        const transferToScope = async (item: SnippetTreeItem, mode: TransferMode) => {
+            if (item.type !== 'folder' && item.type !== 'snippet') {
+                return;
+            }
+            const sourceScope = item.scope || GLOBAL_SCOPE;
+            const scopes = [GLOBAL_SCOPE, ...projectLibraries.getLibraries().map(library => library.scope)]
+                .filter(scope => scope !== sourceScope);
+            if (scopes.length === 0) {
+                vscode.window.showInformationMessage('Open a workspace folder to use project snippets.');
+                return;
+            }
 
-                // Trigger auto-sync immediately after setting backup folder
-                await autoSyncFromBackup(context, localStorage, treeDataProvider);
+            const scopeItems = scopes.map(scope => ({
+                label: scope === GLOBAL_SCOPE ? 'Global Snippets' : `Project: ${projectLibraries.getLibrary(scope)?.name}`,
+                scope
+            }));
+            const targetScope = scopeItems.length === 1
+                ? scopeItems[0]
+                : await vscode.window.showQuickPick(scopeItems, { placeHolder: `${mode === 'move' ? 'Move' : 'Copy'} "${item.label}" to...` });
+            if (!targetScope) {
+                return;
+            }
+
+            // Snippets need a folder; folders can also go to the top level
+            const targetStore = storeFor(targetScope);
+            const folders = await targetStore.getFolders();
+            const folderItems: (vscode.QuickPickItem & { folderId: string | null })[] = [
+                ...(item.type === 'folder' ? [{ label: '$(root-folder) Top level', folderId: null }] : []),
+                ...folders.map(folder => ({ label: `$(folder) ${folder.name}`, folderId: folder.id }))
+            ];
+            if (folderItems.length === 0) {
+                vscode.window.showErrorMessage(`Create a folder in ${treeDataProvider.getScopeLabel(targetScope.scope)} first.`);
+                return;
+            }
+            const targetFolder = await vscode.window.showQuickPick(folderItems, { placeHolder: 'Select the destination folder' });
+            if (!targetFolder) {
+                return;
             }
-        });
 
+            try {
+                await transferItem(storeFor(item), targetStore, { type: item.type, id: item.id }, targetFolder.folderId, mode);
+                await treeDataProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to ${mode} ${item.type}: ${error}`);
+            }
+        };
 
+        const moveToScopeCommand = vscode.commands.registerCommand('snippets.moveToScope', (item: SnippetTreeItem) => transferToScope(item, 'move'));
+        const copyToScopeCommand = vscode.commands.registerCommand('snippets.copyToScope', (item: SnippetTreeItem) => transferToScope(item, 'copy'));
 
-        // Register the moveToRoot command
-        let moveToRootCommand = vscode.commands.registerCommand('snippets.moveToRoot', async (item: SnippetTreeItem) => {
+        // Imports VS Code snippet files (`.code-snippets`, or language files like `javascript.json`) into a folder
+        const importCodeSnippetsCommand = vscode.commands.registerCommand('snippets.importCodeSnippets', async (item?: SnippetTreeItem) => {
             try {
-                // Get the folder ID from the tree item
-                const folderId = item.id;
+                let store = storeFor(item);
+                let folderId = item?.type === 'folder' ? item.id : undefined;
                 if (!folderId) {
+                    const folders = await localStorage.getFolders();
+                    if (folders.length === 0) {
+                        vscode.window.showErrorMessage('Create a folder to import the snippets into first.');
+                        return;
+                    }
+                    const picked = await vscode.window.showQuickPick(
+                        folders.map(folder => ({ label: `$(folder) ${folder.name}`, folderId: folder.id })),
+                        { placeHolder: 'Select the folder to import the snippets into' }
+                    );
+                    if (!picked) {
+                        return;
+                    }
+                    store = localStorage;
+                    folderId = picked.folderId;
+                }
+
+                const userSnippets = getUserSnippetsFolder(context);
+                const files = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: true,
+                    defaultUri: await fileExists(userSnippets) ? vscode.Uri.file(userSnippets) : undefined,
+                    filters: {
+                        'VS Code snippets': ['code-snippets', 'json']
+                    },
+                    openLabel: 'Import Snippets'
+                });
+                if (!files || files.length === 0) {
                     return;
                 }
 
-                // Move the folder to root
-                await localStorage.moveFolder(folderId, '');
+                const imported: ImportedSnippet[] = [];
+                for (const file of files) {
+                    const text = await fs.promises.readFile(file.fsPath, 'utf8');
+                    // Language snippet files are named after their language
+                    const fileLanguage = path.extname(file.fsPath) === '.json' ? path.basename(file.fsPath, '.json') : undefined;
+                    imported.push(...parseCodeSnippets(text, path.basename(file.fsPath), fileLanguage));
+                }
+                if (imported.length === 0) {
+                    vscode.window.showInformationMessage('The selected files have no snippets.');
+                    return;
+                }
 
-                // Refresh the tree view
-                treeDataProvider.refresh();
+                const targetId = folderId;
+                const encrypted = isInEncryptedFolder(await store.getFolders(), targetId);
+                const snippets: Snippet[] = [];
+                for (const snippet of imported) {
+                    snippets.push({
+                        id: createId(),
+                        name: snippet.name,
+                        folderId: targetId,
+                        code: encrypted ? await keyring.encrypt(snippet.code) : snippet.code,
+                        language: snippet.language,
+                        notes: encrypted ? await keyring.encrypt(snippet.notes) : snippet.notes,
+                        tags: [],
+                        lastModified: Date.now(),
+                        encrypted: encrypted || undefined,
+                        prefix: snippet.prefix
+                    });
+                }
+                await store.transaction(draft => {
+                    if (!draft.folders.some(folder => folder.id === targetId)) {
+                        throw new Error('Folder not found');
+                    }
+                    draft.snippets.push(...snippets);
+                });
 
+                await treeDataProvider.refresh();
+                vscode.window.showInformationMessage(`Imported ${snippets.length} snippet(s) from ${files.length} file(s)`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to move folder to root: ${error}`);
+                logError('Import of VS Code snippets failed', error);
+                vscode.window.showErrorMessage('Failed to import snippets: ' + (error instanceof Error ? error.message : error));
             }
         });
 
-        // Register move up/down commands
-        let moveUpCommand = vscode.commands.registerCommand('snippets.moveUp', async (item: SnippetTreeItem) => {
-            try {
-                await localStorage.updateFolderOrder(item.id, 'up');
-                treeDataProvider.refresh();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to move folder up: ${error}`);
+        // Writes a folder and its subfolders as a `.code-snippets` file, e.g. straight into the user snippets
+        const exportCodeSnippetsCommand = vscode.commands.registerCommand('snippets.exportCodeSnippets', async (item?: SnippetTreeItem) => {
+            if (!item) {
+                vscode.window.showErrorMessage('Please select a folder first');
+                return;
             }
-        });
-
-        let moveDownCommand = vscode.commands.registerCommand('snippets.moveDown', async (item: SnippetTreeItem) => {
             try {
-                await localStorage.updateFolderOrder(item.id, 'down');
-                treeDataProvider.refresh();
+                const data = await storeFor(item).getAllData();
+                const folderIds = new Set(getFolderSubtree(data.folders, item.id).map(f => f.id));
+                const snippets = data.snippets.filter(s => folderIds.has(s.folderId));
+                if (snippets.length === 0) {
+                    vscode.window.showInformationMessage(`"${item.label}" has no snippets to export.`);
+                    return;
+                }
+
+                const userSnippets = getUserSnippetsFolder(context);
+                const fileName = `${item.label.replace(/[\\/:*?"<>|]+/g, '-')}.code-snippets`;
+                const destination = await vscode.window.showQuickPick([
+                    { label: '$(symbol-snippet) Add to User Snippets', description: path.join(userSnippets, fileName), toUserSnippets: true },
+                    { label: '$(save-as) Save As...', toUserSnippets: false }
+                ], { placeHolder: `Export "${item.label}" as VS Code snippets` });
+                if (!destination) {
+                    return;
+                }
+
+                if (snippets.some(s => s.encrypted)) {
+                    const confirmed = await vscode.window.showWarningMessage(
+                        `"${item.label}" has encrypted snippets. They will be written to the file in plain text.`,
+                        { modal: true },
+                        'Export'
+                    );
+                    if (confirmed !== 'Export') {
+                        return;
+                    }
+                }
+
+                let filePath: string;
+                if (destination.toUserSnippets) {
+                    filePath = path.join(userSnippets, fileName);
+                    if (await fileExists(filePath)) {
+                        const confirmed = await vscode.window.showWarningMessage(
+                            `${fileName} already exists in your user snippets. Replace it?`,
+                            { modal: true },
+                            'Replace'
+                        );
+                        if (confirmed !== 'Replace') {
+                            return;
+                        }
+                    }
+                    await fs.promises.mkdir(userSnippets, { recursive: true });
+                } else {
+                    const uri = await vscode.window.showSaveDialog({
+                        defaultUri: vscode.Uri.file(fileName),
+                        filters: {
+                            'VS Code snippets': ['code-snippets']
+                        },
+                        saveLabel: 'Export Snippets'
+                    });
+                    if (!uri) {
+                        return;
+                    }
+                    filePath = uri.fsPath;
+                }
+
+                const revealed: Snippet[] = [];
+                for (const snippet of snippets) {
+                    revealed.push(await revealSnippet(snippet));
+                }
+                await fs.promises.writeFile(filePath, toCodeSnippets(revealed));
+                vscode.window.showInformationMessage(`Exported ${snippets.length} snippet(s) to ${filePath}`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to move folder down: ${error}`);
+                logError('Export of VS Code snippets failed', error);
+                vscode.window.showErrorMessage('Failed to export snippets: ' + (error instanceof Error ? error.message : error));
             }
         });
 
+        // Writes a folder, or the whole library, as a Markdown document
+        const exportMarkdownCommand = vscode.commands.registerCommand('snippets.exportMarkdown', async (item?: SnippetTreeItem) => {
+            try {
+                const folder = item?.type === 'folder' ? item : undefined;
+                const data = await storeFor(folder).getAllData();
+                const folderIds = folder ? new Set(getFolderSubtree(data.folders, folder.id).map(f => f.id)) : undefined;
+                const snippets = folderIds ? data.snippets.filter(s => folderIds.has(s.folderId)) : data.snippets;
+                if (snippets.length === 0) {
+                    vscode.window.showInformationMessage('There are no snippets to export.');
+                    return;
+                }
 
+                const name = folder ? folder.label : getActiveLibrary(context);
+                if (snippets.some(s => s.encrypted)) {
+                    const confirmed = await vscode.window.showWarningMessage(
+                        `"${name}" has encrypted snippets. They will be written to the file in plain text.`,
+                        { modal: true },
+                        'Export'
+                    );
+                    if (confirmed !== 'Export') {
+                        return;
+                    }
+                }
 
-        const showLogCommand = vscode.commands.registerCommand('snippets.showLog', () => showLog());
+                const uri = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(`${name.replace(/[\\/:*?"<>|]+/g, '-')}.md`),
+                    filters: {
+                        'Markdown files': ['md']
+                    },
+                    saveLabel: 'Export as Markdown'
+                });
+                if (!uri) {
+                    return;
+                }
 
-        const duplicateSnippetCommand = vscode.commands.registerCommand('snippets.duplicateSnippet', async (item: SnippetTreeItem) => {
-            try {
-                await localStorage.duplicateSnippet(item.id);
-                treeDataProvider.refresh();
+                const revealed: Snippet[] = [];
+                for (const snippet of snippets) {
+                    revealed.push(await revealSnippet(snippet));
+                }
+                await fs.promises.writeFile(uri.fsPath, toMarkdown({ folders: data.folders, snippets: revealed }, folder ? folder.id : null));
+                vscode.window.showInformationMessage(`Exported ${snippets.length} snippet(s) to ${uri.fsPath}`);
             } catch (error) {
-                vscode.window.showErrorMessage('Failed to duplicate snippet: ' + error);
+                logError('Markdown export failed', error);
+                vscode.window.showErrorMessage('Failed to export snippets: ' + (error instanceof Error ? error.message : error));
             }
         });
 
-        const copyToClipboardCommand = vscode.commands.registerCommand('snippets.copyToClipboard', async (item: SnippetTreeItem) => {
+        // Reads the code blocks of a Markdown document into folders and snippets, after a preview
+        const importMarkdownCommand = vscode.commands.registerCommand('snippets.importMarkdown', async (item?: SnippetTreeItem) => {
             try {
-                const snippet = await localStorage.getSnippet(item.id);
-                if (snippet) {
-                    await vscode.env.clipboard.writeText(snippet.code);
-                    vscode.window.showInformationMessage(`Copied "${snippet.name}" to clipboard`);
+                let store = storeFor(item);
+                let parentId: string | null;
+                if (item?.type === 'folder') {
+                    parentId = item.id;
+                } else {
+                    const folders = await localStorage.getFolders();
+                    const picked = await vscode.window.showQuickPick([
+                        { label: '$(root-folder) Top level', folderId: null as string | null },
+                        ...folders.map(folder => ({ label: `$(folder) ${folder.name}`, folderId: folder.id as string | null }))
+                    ], { placeHolder: 'Select where to import the snippets' });
+                    if (!picked) {
+                        return;
+                    }
+                    store = localStorage;
+                    parentId = picked.folderId;
+                }
+
+                const files = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: false,
+                    filters: {
+                        'Markdown files': ['md', 'markdown']
+                    },
+                    openLabel: 'Import Markdown'
+                });
+                if (!files || files.length === 0) {
+                    return;
+                }
+
+                const filePath = files[0].fsPath;
+                const fileName = path.basename(filePath);
+                const imported = parseMarkdown(await fs.promises.readFile(filePath, 'utf8'), parentId, path.basename(filePath, path.extname(filePath)));
+                if (imported.snippets.length === 0) {
+                    vscode.window.showInformationMessage(`${fileName} has no code blocks to import.`);
+                    return;
+                }
+
+                // Snippets that go into an encrypted folder are encrypted like new ones
+                const allFolders = [...await store.getFolders(), ...imported.folders];
+                for (const snippet of imported.snippets) {
+                    if (isInEncryptedFolder(allFolders, snippet.folderId)) {
+                        snippet.code = await keyring.encrypt(snippet.code);
+                        snippet.notes = await keyring.encrypt(snippet.notes);
+                        snippet.encrypted = true;
+                    }
                 }
+
+                const plan = planMarkdownImport(await store.getAllData(), imported);
+                const selected = await showSyncPreview(plan, syncPreviewProvider, `Import from ${fileName}`);
+                if (!selected || selected.size === 0) {
+                    return;
+                }
+
+                await store.transaction(draft => {
+                    const result = planMarkdownImport(draft, imported, selected);
+                    draft.folders = result.folders;
+                    draft.snippets = result.snippets;
+                });
+                await treeDataProvider.refresh();
+                vscode.window.showInformationMessage(`Imported ${selected.size} item(s) from ${fileName}`);
             } catch (error) {
-                vscode.window.showErrorMessage('Failed to copy snippet: ' + error);
+                logError('Markdown import failed', error);
+                vscode.window.showErrorMessage('Failed to import snippets: ' + (error instanceof Error ? error.message : error));
             }
         });
 
-        const insertSnippetCommand = vscode.commands.registerCommand('snippets.insertSnippet', async (item: SnippetTreeItem) => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor — open a file first, then insert the snippet.');
+        const switchLibraryCommand = vscode.commands.registerCommand('snippets.switchLibrary', async () => {
+            const activeLibrary = getActiveLibrary(context);
+            const libraries = await listLibraries();
+            const items: (vscode.QuickPickItem & { library?: string })[] = [
+                ...libraries.map(library => ({
+                    label: library,
+                    description: library === activeLibrary ? 'Active' : undefined,
+                    detail: getLibraryPath(library),
+                    library
+                })),
+                { label: '$(add) New Library...' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select a snippet library to open' });
+            if (!selected) {
                 return;
             }
-            try {
-                const snippet = await localStorage.getSnippet(item.id);
-                if (snippet) {
-                    await editor.insertSnippet(new vscode.SnippetString(snippet.code));
+
+            let library = selected.library;
+            if (!library) {
+                const name = await vscode.window.showInputBox({
+                    prompt: 'Enter a name for the new library',
+                    placeHolder: 'Work',
+                    validateInput: value => libraries.includes(value.trim())
+                        ? 'A library with this name already exists'
+                        : validateLibraryName(value)
+                });
+                if (!name) {
+                    return;
                 }
-            } catch (error) {
-                vscode.window.showErrorMessage('Failed to insert snippet: ' + error);
+                library = name.trim();
+            }
+
+            if (library === activeLibrary) {
+                return;
             }
-        });
 
-        const togglePinCommand = vscode.commands.registerCommand('snippets.togglePin', async (item: SnippetTreeItem) => {
             try {
-                await localStorage.togglePinSnippet(item.id);
-                treeDataProvider.refresh();
+                await openLibrary(library);
             } catch (error) {
-                vscode.window.showErrorMessage('Failed to toggle pin: ' + error);
+                logError('Error switching library', error);
+                vscode.window.showErrorMessage('Failed to switch library: ' + error);
             }
         });
 
@@ -348,6 +1748,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
             }
         });
+        updateTreeTitle();
 
         // Register commands
         const disposables = [
@@ -368,10 +1769,20 @@ export async function activate(context: vscode.ExtensionContext) {
 
             vscode.commands.registerCommand('snippets.manageSettings', async () => {
                 const items = [
+                    { label: 'Switch Library', command: 'snippets.switchLibrary' },
                     { label: 'Configure Backup Folder', command: 'snippets.configureBackupFolder' },
+                    { label: 'Sync Now', command: 'snippets.syncNow' },
                     { label: 'Sync from Backup Folder', command: 'snippets.syncFromBackup' },
+                    { label: 'Preview Sync from Backup', command: 'snippets.previewSync' },
+                    { label: 'Resolve Sync Conflicts', command: 'snippets.resolveConflicts' },
                     { label: 'Import Snippets', command: 'snippets.importSnippets' },
                     { label: 'Export Snippets', command: 'snippets.exportSnippets' },
+                    { label: 'Import VS Code Snippet Files', command: 'snippets.importCodeSnippets' },
+                    { label: 'Export as Markdown', command: 'snippets.exportMarkdown' },
+                    { label: 'Import from Markdown', command: 'snippets.importMarkdown' },
+                    { label: 'Convert Library Storage Format', command: 'snippets.convertStorageFormat' },
+                    { label: 'Restore from Snapshot', command: 'snippets.restoreSnapshot' },
+                    { label: 'Check Library', command: 'snippets.checkLibrary' },
 
 
                 ];
@@ -394,7 +1805,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
                 if (newName) {
                     try {
-                        await localStorage.renameFolder(item.id, newName);
+                        await storeFor(item).renameFolder(item.id, newName);
                         treeDataProvider.refresh();
                     } catch (error) {
                         vscode.window.showErrorMessage('Failed to rename folder: ' + error);
@@ -411,7 +1822,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
                 if (newName) {
                     try {
-                        await localStorage.renameSnippet(item.id, newName);
+                        await storeFor(item).renameSnippet(item.id, newName);
                         treeDataProvider.refresh();
                     } catch (error) {
                         vscode.window.showErrorMessage('Failed to rename snippet: ' + error);
@@ -421,24 +1832,39 @@ export async function activate(context: vscode.ExtensionContext) {
 
             vscode.commands.registerCommand('snippets.updateSnippet', async (update: {
                 id: string;
+                scope?: string;
                 code?: string;
                 notes?: string;
                 language?: string;
                 tags?: string[];
             }) => {
                 try {
-                    await localStorage.updateSnippet(update);
+                    const { scope, ...snippetUpdate } = update;
+                    const store = storeFor({ scope });
+
+                    // The editor works with decrypted content; only ciphertext is stored
+                    const current = await store.getSnippet(update.id);
+                    if (current?.encrypted) {
+                        if (snippetUpdate.code !== undefined) {
+                            snippetUpdate.code = await keyring.encrypt(snippetUpdate.code);
+                        }
+                        if (snippetUpdate.notes !== undefined) {
+                            snippetUpdate.notes = await keyring.encrypt(snippetUpdate.notes);
+                        }
+                    }
+                    await store.updateSnippet(snippetUpdate);
+                    revisionProvider.refresh();
                     treeDataProvider.refresh();
                 } catch (error) {
                     throw new Error('Failed to update snippet: ' + error);
                 }
             }),
 
-            vscode.commands.registerCommand('snippets.openSnippet', async (snippetInfo: { id: string; name: string; language?: string }) => {
+            vscode.commands.registerCommand('snippets.openSnippet', async (snippetInfo: { id: string; name: string; language?: string; scope?: string }) => {
                 try {
-                    const snippet = await localStorage.getSnippet(snippetInfo.id);
+                    const snippet = await storeFor(snippetInfo).getSnippet(snippetInfo.id);
                     if (snippet) {
-                        await SnippetEditor.show(snippet);
+                        await SnippetEditor.show({ ...await revealSnippet(snippet), scope: snippetInfo.scope });
                     } else {
                         vscode.window.showErrorMessage('Snippet not found');
                     }
@@ -447,7 +1873,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
             }),
 
-            vscode.commands.registerCommand('snippets.addFolder', async () => {
+            vscode.commands.registerCommand('snippets.addFolder', async (parentItem?: SnippetTreeItem) => {
                 const name = await vscode.window.showInputBox({
                     prompt: 'Enter folder name',
                     placeHolder: 'My Snippets'
@@ -456,7 +1882,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 if (name) {
                     try {
                         // Pass only name for root folder (parentId will default to null)
-                        await localStorage.addFolder(name);
+                        await storeFor(parentItem).addFolder(name);
                         treeDataProvider.refresh();
                     } catch (error) {
                         vscode.window.showErrorMessage('Failed to create folder: ' + error);
@@ -473,7 +1899,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 if (name) {
                     try {
                         // Pass name and parentId
-                        await localStorage.addFolder(name, parentItem.id);
+                        await storeFor(parentItem).addFolder(name, parentItem.id);
                         treeDataProvider.refresh();
                     } catch (error) {
                         vscode.window.showErrorMessage('Failed to create subfolder: ' + error);
@@ -492,12 +1918,15 @@ export async function activate(context: vscode.ExtensionContext) {
                 });
                 if (name) {
                     try {
-                        await localStorage.addSnippet({
+                        const store = storeFor(parentItem);
+                        const encrypted = isInEncryptedFolder(await store.getFolders(), parentItem.id);
+                        await store.addSnippet({
                             name,
                             folderId: parentItem.id,
-                            code: '',
+                            code: encrypted ? await keyring.encrypt('') : '',
                             language: 'plaintext',
-                            notes: ''
+                            notes: encrypted ? await keyring.encrypt('') : '',
+                            encrypted: encrypted || undefined
                         });
                         treeDataProvider.refresh();
                     } catch (error) {
@@ -512,21 +1941,21 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
 
                 const confirmMessage = item.type === 'folder'
-                    ? 'Are you sure you want to delete this folder and all its snippets?'
-                    : 'Are you sure you want to delete this snippet?';
+                    ? 'Move this folder and all its subfolders and snippets to the Trash?'
+                    : 'Move this snippet to the Trash?';
 
                 const confirmed = await vscode.window.showWarningMessage(
                     confirmMessage,
                     { modal: true },
-                    'Delete'
+                    'Move to Trash'
                 );
 
-                if (confirmed === 'Delete') {
+                if (confirmed === 'Move to Trash') {
                     try {
                         if (item.type === 'folder') {
-                            await localStorage.deleteFolder(item.id);
+                            await storeFor(item).deleteFolder(item.id);
                         } else {
-                            await localStorage.deleteSnippet(item.id);
+                            await storeFor(item).deleteSnippet(item.id);
                         }
                         treeDataProvider.refresh();
                     } catch (error) {
@@ -535,6 +1964,56 @@ export async function activate(context: vscode.ExtensionContext) {
                 }
             }),
 
+            vscode.commands.registerCommand('snippets.restoreFromTrash', async (item: SnippetTreeItem) => {
+                try {
+                    await storeFor(item).restoreFromTrash(item.id);
+                    treeDataProvider.refresh();
+                } catch (error) {
+                    vscode.window.showErrorMessage('Failed to restore item: ' + (error as Error).message);
+                }
+            }),
+
+            vscode.commands.registerCommand('snippets.deleteFromTrash', async (item: SnippetTreeItem) => {
+                const confirmed = await vscode.window.showWarningMessage(
+                    `Permanently delete "${item.label}"? This cannot be undone.`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (confirmed !== 'Delete') {
+                    return;
+                }
+
+                try {
+                    await storeFor(item).deleteFromTrash(item.id);
+                    treeDataProvider.refresh();
+                } catch (error) {
+                    vscode.window.showErrorMessage('Failed to delete item: ' + (error as Error).message);
+                }
+            }),
+
+            vscode.commands.registerCommand('snippets.emptyTrash', async () => {
+                const confirmed = await vscode.window.showWarningMessage(
+                    'Permanently delete all items in the Trash? This cannot be undone.',
+                    { modal: true },
+                    'Empty Trash'
+                );
+                if (confirmed !== 'Empty Trash') {
+                    return;
+                }
+
+                try {
+                    await localStorage.emptyTrash();
+                    for (const library of projectLibraries.getLibraries()) {
+                        if (await projectLibraries.exists(library.scope)) {
+                            await projectLibraries.getStore(library.scope).emptyTrash();
+                        }
+                    }
+                    treeDataProvider.refresh();
+                } catch (error) {
+                    vscode.window.showErrorMessage('Failed to empty Trash: ' + (error as Error).message);
+                }
+            }),
+
             vscode.commands.registerCommand('snippets.importSnippets', async () => {
                 const options: vscode.OpenDialogOptions = {
                     canSelectFiles: true,
@@ -550,42 +2029,24 @@ export async function activate(context: vscode.ExtensionContext) {
                 if (result && result[0]) {
                     try {
                         const content = await fs.promises.readFile(result[0].fsPath, 'utf8');
-                        const data = JSON.parse(content);
-
-
-
-                        let folders: any[] = [];
-                        let snippets: any[] = [];
-
-                        // Handle array format (exported format)
-                        if (Array.isArray(data)) {
-                            data.forEach(item => {
-                                if (item.type === 'folder') {
-                                    // Remove the type field as it's not needed in storage
-                                    const { type, ...folderData } = item;
-                                    folders.push(folderData);
-                                } else if (item.folderId) {
-                                    snippets.push(item);
-                                }
-                            });
+                        const imported = decodeLibrary(JSON.parse(content), 'The selected file');
+
+                        // Unrelated items that happen to share an ID (e.g. from another
+                        // machine's library) would silently overwrite each other
+                        let mode: ImportMode = 'merge';
+                        const collisions = findIdCollisions(await localStorage.getAllData(), imported);
+                        if (collisions.size > 0) {
+                            const choice = await vscode.window.showQuickPick([
+                                { label: 'Keep Both', description: 'Give the imported items new IDs', mode: 'remap' as ImportMode },
+                                { label: 'Overwrite', description: 'Treat them as the same items; the newer version wins', mode: 'merge' as ImportMode }
+                            ], { placeHolder: `${collisions.size} imported item(s) have the same ID as different items in your library` });
+                            if (!choice) {
+                                return;
+                            }
+                            mode = choice.mode;
                         }
 
-
-
-                        // Get current data
-                        const currentData = await localStorage.getAllData();
-
-                        // Merge the data
-                        const mergedFolders = mergeFolders(currentData.folders, folders);
-                        const mergedSnippets = mergeSnippets(currentData.snippets, snippets);
-
-
-
-                        // Sync the merged data
-                        await localStorage.syncData({
-                            folders: mergedFolders,
-                            snippets: mergedSnippets
-                        });
+                        await localStorage.importData(content, mode);
 
                         treeDataProvider.refresh();
                         vscode.window.showInformationMessage('Snippets imported successfully');
@@ -608,16 +2069,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 const result = await vscode.window.showSaveDialog(options);
                 if (result) {
                     try {
-                        const data = await localStorage.getAllData();
-                        // Keep the original data structure, just add type to folders
-                        const exportData = {
-                            folders: data.folders.map(folder => ({
-                                ...folder,
-                                type: 'folder'
-                            })),
-                            snippets: data.snippets
-                        };
-                        await fs.promises.writeFile(result.fsPath, JSON.stringify(exportData, null, 2));
+                        await fs.promises.writeFile(result.fsPath, await localStorage.exportData());
                         vscode.window.showInformationMessage('Snippets exported successfully');
                     } catch (error) {
                         vscode.window.showErrorMessage('Failed to export snippets: ' + error);
@@ -627,7 +2079,14 @@ export async function activate(context: vscode.ExtensionContext) {
 
             vscode.commands.registerCommand('snippets.syncFromBackup', async () => {
                 try {
-                    const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
+                    if (remoteSync) {
+                        if (await syncWithRemote(context, remoteSync, localStorage, treeDataProvider, syncStatusBar, syncPreviewProvider)) {
+                            log(`Synced the library with ${remoteSync.label}`);
+                        }
+                        return;
+                    }
+
+                    const backupFolder = getBackupFolder(getActiveLibrary(context));
 
 
                     if (!backupFolder) {
@@ -661,79 +2120,18 @@ export async function activate(context: vscode.ExtensionContext) {
                     const filePath = fileUri[0].fsPath;
 
 
-                    // Read and parse the file
                     const content = await fs.promises.readFile(filePath, 'utf8');
-
-
-                    const importedData = JSON.parse(content);
-
-
-                    let folders: any[] = [];
-                    let snippets: any[] = [];
-
-                    // Handle version 1.0 format (which is what we have in the backup)
-                    if (importedData.version === "1.0" && Array.isArray(importedData.data)) {
-
-                        importedData.data.forEach((item: any) => {
-                            if (item.type === 'folder') {
-                                // For folders, remove the type field but keep everything else
-                                const { type, ...folderData } = item;
-                                folders.push({
-                                    id: folderData.id,
-                                    name: folderData.name,
-                                    parentId: folderData.parentId,
-                                    lastModified: folderData.lastModified
-                                });
-
-                            } else {
-                                // For snippets, keep all fields
-                                snippets.push({
-                                    id: item.id,
-                                    name: item.name,
-                                    folderId: item.folderId,
-                                    code: item.code || '',
-                                    language: item.language || 'plaintext',
-                                    notes: item.notes || '',
-                                    tags: item.tags || [],
-                                    lastModified: item.lastModified
-                                });
-
-                            }
-                        });
-                    }
-
-
-
-                    if (folders.length === 0 && snippets.length === 0) {
+                    const remote = decodeLibrary(JSON.parse(content), 'The selected backup file');
+                    if (remote.folders.length === 0 && remote.snippets.length === 0) {
                         vscode.window.showErrorMessage('No valid data found in the backup file');
                         return;
                     }
 
-                    const confirmResult = await vscode.window.showInformationMessage(
-                        `Found ${folders.length} folders and ${snippets.length} snippets. Do you want to sync with this data?`,
-                        { modal: true },
-                        'Sync',
-                        'Cancel'
-                    );
-
-                    if (confirmResult === 'Sync') {
-                        // Save the data directly
-
-                        await localStorage.syncData({
-                            folders: folders,
-                            snippets: snippets
-                        });
-
-                        // Verify the save
-                        const verifyData = await localStorage.getAllData();
-
-
-                        // Force refresh
-                        await treeDataProvider.refresh();
-                        vscode.window.showInformationMessage('Successfully synced snippets from backup');
-                    }
+                    await reviewAndSync(localStorage, remote, syncPreviewProvider, treeDataProvider);
+                    await syncStatusBar.refresh();
                 } catch (error) {
                     logError('Sync error', error);
+                    await syncStatusBar.syncFailed(error);
                     vscode.window.showErrorMessage('Failed to sync from backup: ' + error);
                 }
             }),
@@ -748,6 +2146,26 @@ export async function activate(context: vscode.ExtensionContext) {
             moveUpCommand,
             moveDownCommand,
             showLogCommand,
+            convertStorageFormatCommand,
+            switchLibraryCommand,
+            moveToScopeCommand,
+            copyToScopeCommand,
+            showHistoryCommand,
+            restoreRevisionCommand,
+            checkLibraryCommand,
+            resolveConflictsCommand,
+            previewSyncCommand,
+            syncNowCommand,
+            showSyncStatusCommand,
+            setSyncCredentialsCommand,
+            restoreSnapshotCommand,
+            toggleEncryptionCommand,
+            toggleFolderSyncCommand,
+            importCodeSnippetsCommand,
+            exportCodeSnippetsCommand,
+            exportMarkdownCommand,
+            importMarkdownCommand,
+            lockEncryptedCommand,
             duplicateSnippetCommand,
             copyToClipboardCommand,
             insertSnippetCommand,
@@ -763,7 +2181,7 @@ export function deactivate() {
     SnippetEditor.disposeAll();
 }
 
-async function syncFromBackupFolder(localStorage: LocalStorage, treeDataProvider: SnippetTreeDataProvider): Promise<void> {
+async function syncFromBackupFolder(localStorage: SnippetStore, treeDataProvider: SnippetTreeDataProvider): Promise<void> {
     try {
         const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
 
@@ -803,55 +2221,20 @@ async function syncFromBackupFolder(localStorage: LocalStorage, treeDataProvider
 
         try {
             const content = await fs.promises.readFile(filePath, 'utf8');
-            const importedData = JSON.parse(content);
-
-
-
-            let folders: any[] = [];
-            let snippets: any[] = [];
+            const remote = decodeLibrary(JSON.parse(content), 'The selected file');
 
-            // Handle different possible formats
-            if (importedData.version === "1.0" && Array.isArray(importedData.data)) {
-                // Process each item in the array
-                importedData.data.forEach((item: any) => {
-                    if (item.type === 'folder') {
-                        const { type, ...folderData } = item;
-                        folders.push(folderData);
-                    } else {
-                        snippets.push(item);
-                    }
-                });
-            } else if (Array.isArray(importedData)) {
-                // Legacy format - direct array
-                importedData.forEach((item: any) => {
-                    if (item.type === 'folder') {
-                        const { type, ...folderData } = item;
-                        folders.push(folderData);
-                    } else {
-                        snippets.push(item);
-                    }
-                });
-            }
-
-            log(`Processed data: ${folders.length} folders, ${snippets.length} snippets`);
-
-            // Get current data
-            const currentData = await localStorage.getAllData();
-
-            // Merge the data
-            const mergedFolders = mergeFolders(currentData.folders, folders);
-            const mergedSnippets = mergeSnippets(currentData.snippets, snippets);
+            log(`Processed data: ${remote.folders.length} folders, ${remote.snippets.length} snippets`);
 
-        log(`Merged data: ${mergedFolders.length} folders, ${mergedSnippets.length} snippets`);
-
-            // Sync the merged data
-            await localStorage.syncData({
-                folders: mergedFolders,
-                snippets: mergedSnippets
-            });
+            // Merge the data into the current library
+            const conflicts = await syncLibrary(localStorage, remote);
+            log(`Merged data with ${conflicts.length} conflict(s)`);
 
             treeDataProvider.refresh();
-            vscode.window.showInformationMessage('Successfully synced snippets from selected file');
+            if (conflicts.length > 0) {
+                notifyConflicts(conflicts.length);
+            } else {
+                vscode.window.showInformationMessage('Successfully synced snippets from selected file');
+            }
         } catch (error) {
             logError('Error reading/parsing file', error);
             vscode.window.showErrorMessage('Failed to read or parse the selected file');
@@ -863,60 +2246,31 @@ async function syncFromBackupFolder(localStorage: LocalStorage, treeDataProvider
     }
 }
 
-// Helper function to merge folders arrays while preserving unique IDs and using timestamps
-function mergeFolders(existing: any[], newFolders: any[]): any[] {
-    const folderMap = new Map();
-
-    // Add existing folders to map
-    existing.forEach(folder => {
-        folderMap.set(folder.id, {
-            ...folder,
-            lastModified: folder.lastModified || Date.now() // Add timestamp if missing
-        });
-    });
-
-    // Merge in new folders, using the most recent version
-    newFolders.forEach(folder => {
-        const existingFolder = folderMap.get(folder.id);
-        const newFolder = {
-            ...folder,
-            lastModified: folder.lastModified || Date.now() // Add timestamp if missing
-        };
+type StorageFormat = 'json' | 'files';
 
-        if (!existingFolder || (newFolder.lastModified > existingFolder.lastModified)) {
-            folderMap.set(folder.id, newFolder);
-        }
-    });
-
-    return Array.from(folderMap.values());
+function getStorageFormat(): StorageFormat {
+    return vscode.workspace.getConfiguration('snippets').get<StorageFormat>('storageFormat') === 'files' ? 'files' : 'json';
 }
 
-// Helper function to merge snippets arrays while preserving unique IDs and using timestamps
-function mergeSnippets(existing: any[], newSnippets: any[]): any[] {
-    const snippetMap = new Map();
-
-    // Add existing snippets to map
-    existing.forEach(snippet => {
-        snippetMap.set(snippet.id, {
-            ...snippet,
-            lastModified: snippet.lastModified || Date.now() // Add timestamp if missing
-        });
-    });
+function createStorage(format: StorageFormat, library: string): SnippetStore {
+    const storagePath = getLibraryPath(library);
+    return format === 'files' ? new FileTreeStorage(storagePath, library) : new LocalStorage(storagePath, library);
+}
 
-    // Merge in new snippets, using the most recent version
-    newSnippets.forEach(snippet => {
-        const existingSnippet = snippetMap.get(snippet.id);
-        const newSnippet = {
-            ...snippet,
-            lastModified: snippet.lastModified || Date.now() // Add timestamp if missing
-        };
+// The default library keeps the original key so existing installs don't resync everything
+function getLastSyncKey(library: string): string {
+    return library === DEFAULT_LIBRARY ? 'vssnippets.lastSync' : `vssnippets.lastSync.${library}`;
+}
 
-        if (!existingSnippet || (newSnippet.lastModified > existingSnippet.lastModified)) {
-            snippetMap.set(snippet.id, newSnippet);
-        }
-    });
+// Kept apart from the backup folder's, which decides whether the backup file is new
+function getLastRemoteSyncKey(library: string, provider: 'git' | 'http'): string {
+    return `vssnippets.lastSync.${provider}.${library}`;
+}
 
-    return Array.from(snippetMap.values());
+// VS Code keeps the default profile's user snippets next to the extensions'
+// global storage, in `<user data>/User/snippets`
+function getUserSnippetsFolder(context: vscode.ExtensionContext): string {
+    return path.join(path.dirname(path.dirname(context.globalStorageUri.fsPath)), 'snippets');
 }
 
 // Helper function to check if file exists
@@ -0,0 +1,100 @@
+// Map of languages to their file extensions
+const extensionMap: { [key: string]: string } = {
+    // Web Development
+    'javascript': 'js',
+    'typescript': 'ts',
+    'javascriptreact': 'jsx',
+    'typescriptreact': 'tsx',
+    'jsx': 'jsx',
+    'tsx': 'tsx',
+    'html': 'html',
+    'css': 'css',
+    'scss': 'scss',
+    'sass': 'sass',
+    'less': 'less',
+    'postcss': 'pcss',
+    'tailwindcss': 'css',
+
+    // Web Frameworks
+    'react': 'jsx',  // Legacy support
+    'reactts': 'tsx', // Legacy support
+    'vue': 'vue',
+    'svelte': 'svelte',
+    'angular': 'ts',
+    'astro': 'astro',
+    'solid': 'jsx',
+    'nextjs': 'tsx',
+    'nuxt': 'vue',
+
+    // Programming Languages
+    'python': 'py',
+    'java': 'java',
+    'csharp': 'cs',
+    'cpp': 'cpp',
+    'c': 'c',
+    'go': 'go',
+    'rust': 'rs',
+    'php': 'php',
+    'ruby': 'rb',
+    'kotlin': 'kt',
+    'swift': 'swift',
+    'dart': 'dart',
+    'r': 'r',
+    'perl': 'pl',
+    'lua': 'lua',
+    'scala': 'scala',
+
+    // Data & Config
+    'json': 'json',
+    'xml': 'xml',
+    'yaml': 'yml',
+    'toml': 'toml',
+    'ini': 'ini',
+    'env': 'env',
+    'graphql': 'graphql',
+    'markdown': 'md',
+    'latex': 'tex',
+
+    // Shell & Scripting
+    'shell': 'sh',
+    'bash': 'sh',
+    'powershell': 'ps1',
+    'batch': 'bat',
+
+    // Database
+    'sql': 'sql',
+    'plsql': 'sql',
+    'mongodb': 'mongodb',
+
+    // Build Tools
+    'dockerfile': 'dockerfile',
+    'docker-compose': 'yml',
+    'makefile': 'mk',
+    'cmake': 'cmake',
+    'gradle': 'gradle',
+    'webpack': 'js',
+    'rollup': 'js',
+    'vite': 'js',
+
+    // Default
+    'plaintext': 'txt'
+};
+
+export function getLanguageExtension(language: string): string {
+    // Convert language to lowercase for case-insensitive matching
+    const lang = language.toLowerCase();
+
+    // Special handling for React/TypeScript combinations
+    if (lang === 'react' && language.includes('TypeScript')) {
+        return 'tsx';
+    }
+
+    return extensionMap[lang] || 'txt';
+}
+
+// Reverse lookup used when a snippet is read from a plain source file
+export function getLanguageForExtension(extension: string): string {
+    const ext = extension.replace(/^\./, '').toLowerCase();
+    const match = Object.keys(extensionMap).find(language => extensionMap[language] === ext);
+    return match || 'plaintext';
+}
@@ -1,18 +1,21 @@
 import * as vscode from 'vscode';
-import { LocalStorage } from '../storage/LocalStorage';
+import { SnippetStore } from '../storage/SnippetStore';
 import { SnippetTreeItem } from './SnippetTreeItem';
-import { Folder, Snippet } from '../storage/types';
+import { Folder, LibraryData, Snippet, TrashEntry } from '../storage/types';
+import { GLOBAL_SCOPE, ProjectLibraries } from '../storage/ProjectLibraries';
+import { transferItem, TransferMode } from '../storage/transfer';
+import { getLocalOnlyFolder } from '../storage/selectiveSync';
 import { log, logError } from '../logger';
 
 export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<SnippetTreeItem | undefined> = new vscode.EventEmitter<SnippetTreeItem | undefined>();
     readonly onDidChangeTreeData: vscode.Event<SnippetTreeItem | undefined> = this._onDidChangeTreeData.event;
     private searchQuery: string = '';
-    private folders: Folder[] = [];
-    private snippets: Snippet[] = [];
+    private libraries = new Map<string, LibraryData>();
+    private trash = new Map<string, TrashEntry[]>();
     private isLoading: boolean = false;
 
-    constructor(private localStorage: LocalStorage) {
+    constructor(private localStorage: SnippetStore, private projectLibraries?: ProjectLibraries) {
         this.loadData().catch(error => {
             logError('Error in initial load', error);
         });
@@ -22,6 +25,18 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
         this._onDidChangeTreeData.dispose();
     }
 
+    setStore(store: SnippetStore): void {
+        this.localStorage = store;
+    }
+
+    // Resolves the store an item belongs to: the global library or a project library
+    getStore(scope: string = GLOBAL_SCOPE): SnippetStore {
+        if (scope === GLOBAL_SCOPE || !this.projectLibraries) {
+            return this.localStorage;
+        }
+        return this.projectLibraries.getStore(scope);
+    }
+
     private async loadData(): Promise<void> {
         if (this.isLoading) {
             return;
@@ -29,10 +44,26 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
 
         this.isLoading = true;
         try {
-            const data = await this.localStorage.getAllData();
-            this.folders = data.folders;
-            this.snippets = data.snippets;
-            log(`Loaded ${this.folders.length} folders, ${this.snippets.length} snippets`);
+            const libraries = new Map<string, LibraryData>();
+            const trash = new Map<string, TrashEntry[]>();
+            libraries.set(GLOBAL_SCOPE, await this.localStorage.getAllData());
+            trash.set(GLOBAL_SCOPE, await this.localStorage.getTrash());
+
+            if (this.projectLibraries) {
+                for (const library of this.projectLibraries.getLibraries()) {
+                    try {
+                        libraries.set(library.scope, await this.projectLibraries.getData(library.scope));
+                        trash.set(library.scope, await this.projectLibraries.getTrash(library.scope));
+                    } catch (error) {
+                        logError(`Error loading project snippets for ${library.name}`, error);
+                    }
+                }
+            }
+
+            this.libraries = libraries;
+            this.trash = trash;
+            const global = libraries.get(GLOBAL_SCOPE)!;
+            log(`Loaded ${global.folders.length} folders, ${global.snippets.length} snippets`);
         } catch (error) {
             logError('Error loading data', error);
             throw error;
@@ -76,12 +107,31 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
         }
 
         const sourceItem = JSON.parse(itemData.value) as SnippetTreeItem;
-        
-        // If target is undefined, we're dropping to root level
-        if (!target) {
+        const sourceScope = sourceItem.scope || GLOBAL_SCOPE;
+
+        // Dropping on a project node or the empty area targets the top level of that library
+        const targetScope = target ? target.scope || GLOBAL_SCOPE : GLOBAL_SCOPE;
+        const targetFolderId = target && target.type === 'folder' ? target.id : null;
+
+        if (target && target.type !== 'folder' && target.type !== 'project') {
+            return;
+        }
+        if (sourceItem.type === 'trash' || sourceItem.type === 'trashItem') {
+            return;
+        }
+
+        if (sourceScope !== targetScope) {
+            await this.transferBetweenScopes(sourceItem, sourceScope, targetScope, targetFolderId);
+            return;
+        }
+
+        const store = this.getStore(sourceScope);
+
+        // If there's no target folder, we're dropping to root level
+        if (!targetFolderId) {
             if (sourceItem.type === 'folder' && sourceItem.parentId !== null) {
                 try {
-                    await this.localStorage.updateFolderParent(sourceItem.id, null);
+                    await store.updateFolderParent(sourceItem.id, null);
                     await this.refresh();
                 } catch (error) {
                     vscode.window.showErrorMessage(`Failed to move folder to root: ${error}`);
@@ -90,19 +140,14 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
             return;
         }
 
-        // Don't proceed if target is not a folder
-        if (target.type !== 'folder') {
-            return;
-        }
-
         // Don't move if the target is the same as the current parent
-        if (sourceItem.parentId === target.id) {
+        if (sourceItem.parentId === targetFolderId) {
             return;
         }
 
         // Don't allow moving a folder into itself or its descendants
         if (sourceItem.type === 'folder') {
-            const isTargetDescendant = await this.isFolderDescendant(target.id, sourceItem.id);
+            const isTargetDescendant = await this.isFolderDescendant(store, targetFolderId, sourceItem.id);
             if (isTargetDescendant) {
                 vscode.window.showErrorMessage('Cannot move a folder into itself or its subfolders');
                 return;
@@ -111,16 +156,16 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
 
         try {
             if (sourceItem.type === 'snippet') {
-                const snippet = await this.localStorage.getSnippet(sourceItem.id);
+                const snippet = await store.getSnippet(sourceItem.id);
                 if (snippet) {
-                    await this.localStorage.updateSnippet({
+                    await store.updateSnippet({
                         id: snippet.id,
-                        folderId: target.id
+                        folderId: targetFolderId
                     });
                 }
             } else if (sourceItem.type === 'folder') {
                 // Move the folder itself
-                await this.localStorage.updateFolderParent(sourceItem.id, target.id);
+                await store.updateFolderParent(sourceItem.id, targetFolderId);
             }
             this.refresh();
         } catch (error) {
@@ -128,6 +173,43 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
         }
     }
 
+    // Moves or copies an item between the global library and a project library
+    private async transferBetweenScopes(sourceItem: SnippetTreeItem, sourceScope: string, targetScope: string, targetFolderId: string | null): Promise<void> {
+        if (sourceItem.type !== 'folder' && sourceItem.type !== 'snippet') {
+            return;
+        }
+        if (sourceItem.type === 'snippet' && !targetFolderId) {
+            vscode.window.showErrorMessage('Drop the snippet on a folder to move it to another library');
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(
+            `Move or copy "${sourceItem.label}" to ${this.getScopeLabel(targetScope)}?`,
+            { modal: true },
+            'Move',
+            'Copy'
+        );
+        if (!choice) {
+            return;
+        }
+
+        try {
+            const mode: TransferMode = choice === 'Move' ? 'move' : 'copy';
+            await transferItem(this.getStore(sourceScope), this.getStore(targetScope), { type: sourceItem.type, id: sourceItem.id }, targetFolderId, mode);
+            await this.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${choice.toLowerCase()} ${sourceItem.type}: ${error}`);
+        }
+    }
+
+    getScopeLabel(scope: string): string {
+        if (scope === GLOBAL_SCOPE) {
+            return 'your global snippets';
+        }
+        const library = this.projectLibraries?.getLibrary(scope);
+        return library ? `the project snippets of ${library.name}` : 'the project snippets';
+    }
+
     // Handle drag
     async handleDrag(source: SnippetTreeItem[], dataTransfer: vscode.DataTransfer): Promise<void> {
         if (source.length === 1) {
@@ -136,10 +218,10 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
     }
 
     // Helper method to check if a folder is a descendant of another folder
-    private async isFolderDescendant(parentId: string, childId: string): Promise<boolean> {
-        const folders = await this.localStorage.getFolders();
+    private async isFolderDescendant(store: SnippetStore, parentId: string, childId: string): Promise<boolean> {
+        const folders = await store.getFolders();
         let currentId = parentId;
-        
+
         while (currentId) {
             if (currentId === childId) {
                 return true;
@@ -150,7 +232,7 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
             }
             currentId = currentFolder.parentId;
         }
-        
+
         return false;
     }
 
@@ -158,9 +240,9 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
         if (!this.searchQuery) {
             return true;
         }
-        
+
         const searchTerms = this.searchQuery.toLowerCase().split(' ');
-        
+
         return searchTerms.every(term => {
             // Check name match
             if (snippet.name.toLowerCase().includes(term)) {
@@ -172,6 +254,11 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
                 return true;
             }
 
+            // Encrypted content can't be searched
+            if (snippet.encrypted) {
+                return false;
+            }
+
             // Check notes match
             if (snippet.notes && snippet.notes.toLowerCase().includes(term)) {
                 return true;
@@ -193,53 +280,101 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
         return folder.name.toLowerCase().includes(this.searchQuery.toLowerCase());
     }
 
+    private createFolderItem(folder: Folder, scope: string): SnippetTreeItem {
+        // Only the global library syncs
+        const localOnly = scope === GLOBAL_SCOPE && !!getLocalOnlyFolder(this.libraries.get(scope)?.folders || [], folder.id);
+        return new SnippetTreeItem(folder.name, folder.id, 'folder', folder.parentId, undefined, undefined, scope, folder.encrypted, localOnly);
+    }
+
+    private createSnippetItem(snippet: Snippet, scope: string): SnippetTreeItem {
+        return new SnippetTreeItem(snippet.name, snippet.id, 'snippet', snippet.folderId, snippet.language, snippet.pinned, scope, snippet.encrypted);
+    }
+
+    private getProjectItems(): SnippetTreeItem[] {
+        if (!this.projectLibraries) {
+            return [];
+        }
+        const libraries = this.projectLibraries.getLibraries();
+        return libraries.map(library => new SnippetTreeItem(
+            libraries.length > 1 ? `Project: ${library.name}` : 'Project',
+            `project:${library.scope}`,
+            'project',
+            null,
+            undefined,
+            undefined,
+            library.scope
+        ));
+    }
+
+    private getTrashItems(): SnippetTreeItem[] {
+        const items: { entry: TrashEntry; item: SnippetTreeItem }[] = [];
+        this.trash.forEach((entries, scope) => {
+            entries.forEach(entry => {
+                const language = entry.kind === 'snippet' ? entry.snippets[0]?.language || 'plaintext' : undefined;
+                const item = new SnippetTreeItem(entry.name, entry.id, 'trashItem', null, language, undefined, scope);
+                const deletedAt = new Date(entry.deletedAt).toLocaleString();
+                item.description = scope === GLOBAL_SCOPE ? deletedAt : `${deletedAt} · ${this.getScopeLabel(scope)}`;
+                item.tooltip = `${[...entry.path.map(p => p.name), entry.name].join(' / ')}\nDeleted ${deletedAt}`;
+                items.push({ entry, item });
+            });
+        });
+        return items
+            .sort((a, b) => b.entry.deletedAt - a.entry.deletedAt)
+            .map(({ item }) => item);
+    }
+
+    private getFolderChildren(scope: string, parentId: string | null): SnippetTreeItem[] {
+        const data = this.libraries.get(scope) || { folders: [], snippets: [] };
+        const folders = data.folders
+            .filter(folder => folder.parentId === parentId)
+            .sort((a, b) => {
+                // Initialize order if undefined
+                const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+                const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+                return orderA - orderB;
+            });
+        const snippets = parentId === null ? [] : data.snippets
+            .filter(snippet => snippet.folderId === parentId)
+            .sort((a, b) => (b.pinned ? 1 : 0) - (a.pinned ? 1 : 0));
+
+        return [
+            ...folders.map(folder => this.createFolderItem(folder, scope)),
+            ...snippets.map(snippet => this.createSnippetItem(snippet, scope))
+        ];
+    }
+
     async getChildren(element?: SnippetTreeItem): Promise<SnippetTreeItem[]> {
         try {
             if (!element) {
-                // Root level - show only root folders
-                const rootFolders = this.folders
-                    .filter(folder => folder.parentId === null)
-                    .sort((a, b) => {
-                        // Initialize order if undefined
-                        const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
-                        const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
-                        return orderA - orderB;
-                    });
-                
                 if (this.searchQuery) {
-                    const matchingSnippets = this.snippets
-                        .filter(snippet => this.snippetMatchesSearch(snippet))
-                        .sort((a, b) => (b.pinned ? 1 : 0) - (a.pinned ? 1 : 0));
-
-                    return [
-                        ...rootFolders
-                            .filter(folder => this.folderMatchesSearch(folder))
-                            .map(folder => new SnippetTreeItem(folder.name, folder.id, 'folder', null)),
-                        ...matchingSnippets.map(snippet => new SnippetTreeItem(
-                            snippet.name, snippet.id, 'snippet', snippet.folderId, snippet.language, snippet.pinned
-                        ))
-                    ];
+                    // Search across the global library and every project library
+                    const results: SnippetTreeItem[] = [];
+                    const matchingSnippets: SnippetTreeItem[] = [];
+                    this.libraries.forEach((data, scope) => {
+                        data.folders
+                            .filter(folder => folder.parentId === null && this.folderMatchesSearch(folder))
+                            .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+                            .forEach(folder => results.push(this.createFolderItem(folder, scope)));
+                        data.snippets
+                            .filter(snippet => this.snippetMatchesSearch(snippet))
+                            .forEach(snippet => matchingSnippets.push(this.createSnippetItem(snippet, scope)));
+                    });
+                    matchingSnippets.sort((a, b) => (b.pinned ? 1 : 0) - (a.pinned ? 1 : 0));
+
+                    return [...results, ...matchingSnippets];
                 }
 
-                return rootFolders.map(folder => new SnippetTreeItem(folder.name, folder.id, 'folder', null));
+                // Root level - project libraries first, then the global root folders and the Trash
+                const trashCount = Array.from(this.trash.values()).reduce((count, entries) => count + entries.length, 0);
+                const trashItem = new SnippetTreeItem('Trash', 'trash', 'trash');
+                trashItem.description = trashCount > 0 ? `${trashCount}` : '';
+                return [...this.getProjectItems(), ...this.getFolderChildren(GLOBAL_SCOPE, null), trashItem];
+            } else if (element.type === 'trash') {
+                return this.getTrashItems();
+            } else if (element.type === 'project') {
+                return this.getFolderChildren(element.scope, null);
             } else if (element.type === 'folder') {
-                const subfolders = this.folders
-                    .filter(folder => folder.parentId === element.id)
-                    .sort((a, b) => {
-                        const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
-                        const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
-                        return orderA - orderB;
-                    });
-                const folderSnippets = this.snippets
-                    .filter(snippet => snippet.folderId === element.id)
-                    .sort((a, b) => (b.pinned ? 1 : 0) - (a.pinned ? 1 : 0));
-
-                return [
-                    ...subfolders.map(folder => new SnippetTreeItem(folder.name, folder.id, 'folder', folder.parentId)),
-                    ...folderSnippets.map(snippet => new SnippetTreeItem(
-                        snippet.name, snippet.id, 'snippet', snippet.folderId, snippet.language, snippet.pinned
-                    ))
-                ];
+                return this.getFolderChildren(element.scope, element.id);
             }
 
             return [];
@@ -248,4 +383,4 @@ export class SnippetTreeDataProvider implements vscode.TreeDataProvider<SnippetT
             return [];
         }
     }
-} 
\ No newline at end of file
+}
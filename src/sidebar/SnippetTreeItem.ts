@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { Folder, Snippet } from '../storage/types';
+import { getLanguageExtension } from '../languages';
+import { GLOBAL_SCOPE } from '../storage/ProjectLibraries';
 
 export class SnippetTreeItem extends vscode.TreeItem {
     public readonly draggable: boolean;
@@ -9,19 +11,45 @@ export class SnippetTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly id: string,
-        public readonly type: 'folder' | 'snippet',
+        public readonly type: 'folder' | 'snippet' | 'project' | 'trash' | 'trashItem',
         public readonly parentId: string | null = null,
         public readonly language?: string,
-        public readonly pinned?: boolean
+        public readonly pinned?: boolean,
+        public readonly scope: string = GLOBAL_SCOPE,  // Which library the item belongs to
+        public readonly encrypted?: boolean,
+        public readonly localOnly?: boolean  // The folder, or one it is in, isn't synced
     ) {
-        const collapsibleState = type === 'folder'
-            ? vscode.TreeItemCollapsibleState.Collapsed
-            : vscode.TreeItemCollapsibleState.None;
+        const collapsibleState = type === 'project'
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : type === 'folder' || type === 'trash'
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None;
 
         super(label, collapsibleState);
 
         this.tooltip = type === 'folder' ? `Folder: ${label}` : label;
 
+        if (type === 'project') {
+            // Root node for the snippets stored in a workspace folder
+            this.contextValue = 'projectLibrary';
+            this.iconPath = new vscode.ThemeIcon('repo');
+            this.tooltip = `Project snippets stored in ${label}`;
+            this.draggable = false;
+            this.dropTarget = true;
+            return;
+        }
+
+        if (type === 'trash' || type === 'trashItem') {
+            // Deleted items can only be restored or deleted for good
+            this.contextValue = type === 'trash' ? 'trash' : 'trashedItem';
+            this.iconPath = type === 'trash'
+                ? new vscode.ThemeIcon('trash')
+                : new vscode.ThemeIcon(language ? 'file-code' : 'folder');
+            this.draggable = false;
+            this.dropTarget = false;
+            return;
+        }
+
         if (type === 'folder') {
             this.contextValue = parentId ? 'subfolder' : 'folder';
         } else {
@@ -30,6 +58,14 @@ export class SnippetTreeItem extends vscode.TreeItem {
                 this.description = '★';
             }
         }
+        if (encrypted) {
+            this.description = [this.description, '🔒'].filter(Boolean).join(' ');
+            this.tooltip = `${this.tooltip} (encrypted)`;
+        }
+        if (localOnly) {
+            this.description = [this.description, 'local only'].filter(Boolean).join(' ');
+            this.tooltip = `${this.tooltip} (kept on this device, not synced)`;
+        }
 
         // Enable drag for snippets and folders, but only allow dropping on folders
         this.draggable = true;
@@ -41,7 +77,7 @@ export class SnippetTreeItem extends vscode.TreeItem {
             this.iconPath = new vscode.ThemeIcon('folder');
         } else {
             // Create a fake file path with the correct extension to get proper file icon
-            const extension = this.getLanguageExtension(language || 'plaintext');
+            const extension = getLanguageExtension(language || 'plaintext');
             this.resourceUri = vscode.Uri.parse(`file:///fake/path/file.${extension}`);
             
             // Only pass the necessary properties to avoid circular reference
@@ -52,103 +88,10 @@ export class SnippetTreeItem extends vscode.TreeItem {
                     id: this.id,
                     name: this.label,
                     type: this.type,
-                    language: this.language
+                    language: this.language,
+                    scope: this.scope
                 }]
             };
         }
     }
-
-    private getLanguageExtension(language: string): string {
-        // Map of languages to their file extensions
-        const extensionMap: { [key: string]: string } = {
-            // Web Development
-            'javascript': 'js',
-            'typescript': 'ts',
-            'javascriptreact': 'jsx',
-            'typescriptreact': 'tsx',
-            'jsx': 'jsx',
-            'tsx': 'tsx',
-            'html': 'html',
-            'css': 'css',
-            'scss': 'scss',
-            'sass': 'sass',
-            'less': 'less',
-            'postcss': 'pcss',
-            'tailwindcss': 'css',
-
-            // Web Frameworks
-            'react': 'jsx',  // Legacy support
-            'reactts': 'tsx', // Legacy support
-            'vue': 'vue',
-            'svelte': 'svelte',
-            'angular': 'ts',
-            'astro': 'astro',
-            'solid': 'jsx',
-            'nextjs': 'tsx',
-            'nuxt': 'vue',
-
-            // Programming Languages
-            'python': 'py',
-            'java': 'java',
-            'csharp': 'cs',
-            'cpp': 'cpp',
-            'c': 'c',
-            'go': 'go',
-            'rust': 'rs',
-            'php': 'php',
-            'ruby': 'rb',
-            'kotlin': 'kt',
-            'swift': 'swift',
-            'dart': 'dart',
-            'r': 'r',
-            'perl': 'pl',
-            'lua': 'lua',
-            'scala': 'scala',
-
-            // Data & Config
-            'json': 'json',
-            'xml': 'xml',
-            'yaml': 'yml',
-            'toml': 'toml',
-            'ini': 'ini',
-            'env': 'env',
-            'graphql': 'graphql',
-            'markdown': 'md',
-            'latex': 'tex',
-
-            // Shell & Scripting
-            'shell': 'sh',
-            'bash': 'sh',
-            'powershell': 'ps1',
-            'batch': 'bat',
-
-            // Database
-            'sql': 'sql',
-            'plsql': 'sql',
-            'mongodb': 'mongodb',
-
-            // Build Tools
-            'dockerfile': 'dockerfile',
-            'docker-compose': 'yml',
-            'makefile': 'mk',
-            'cmake': 'cmake',
-            'gradle': 'gradle',
-            'webpack': 'js',
-            'rollup': 'js',
-            'vite': 'js',
-
-            // Default
-            'plaintext': 'txt'
-        };
-
-        // Convert language to lowercase for case-insensitive matching
-        const lang = language.toLowerCase();
-
-        // Special handling for React/TypeScript combinations
-        if (lang === 'react' && language.includes('TypeScript')) {
-            return 'tsx';
-        }
-
-        return extensionMap[lang] || 'txt';
-    }
 } 
\ No newline at end of file
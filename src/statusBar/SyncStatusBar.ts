@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { logError } from '../logger';
+
+// Where the active library syncs to, as far as the status bar is concerned
+export interface SyncTarget {
+    provider: 'folder' | 'git' | 'http';
+    location: string | undefined;  // Backup folder, git remote or sync server URL
+    available: boolean;            // Configured, and the backup folder exists
+    lastSync: number | undefined;
+    conflicts: number;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'error' | 'unavailable' | 'conflicts';
+
+/**
+ * Status bar item that shows whether the active library is in sync, when it
+ * last synced and what needs attention (a failed sync, a missing backup
+ * folder, unresolved conflicts). Clicking it runs the given command.
+ */
+export class SyncStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private syncing = false;
+    private lastError: string | undefined;
+    private lastSynced: number | undefined;
+    private target: SyncTarget | undefined;
+
+    constructor(private getTarget: () => Promise<SyncTarget>, command: string) {
+        this.item = vscode.window.createStatusBarItem('snippets.syncStatus', vscode.StatusBarAlignment.Left, 0);
+        this.item.name = 'VS Snippets Sync';
+        this.item.command = command;
+        this.render();
+        this.item.show();
+    }
+
+    get status(): SyncStatus {
+        if (this.syncing) {
+            return 'syncing';
+        }
+        if (this.lastError) {
+            return 'error';
+        }
+        if (this.target && !this.target.available) {
+            return 'unavailable';
+        }
+        return this.target && this.target.conflicts > 0 ? 'conflicts' : 'idle';
+    }
+
+    get error(): string | undefined {
+        return this.lastError;
+    }
+
+    // The sync provider may not record its own sync time, so the newest one wins
+    get lastSync(): number | undefined {
+        const times = [this.target?.lastSync, this.lastSynced].filter((time): time is number => !!time);
+        return times.length > 0 ? Math.max(...times) : undefined;
+    }
+
+    setSyncing(syncing: boolean): void {
+        this.syncing = syncing;
+        this.render();
+    }
+
+    syncSucceeded(): Promise<void> {
+        this.syncing = false;
+        this.lastError = undefined;
+        this.lastSynced = Date.now();
+        return this.refresh();
+    }
+
+    syncFailed(error: unknown): Promise<void> {
+        this.syncing = false;
+        this.lastError = error instanceof Error ? error.message : String(error);
+        return this.refresh();
+    }
+
+    // Forgets the last error, e.g. after switching to another library
+    reset(): Promise<void> {
+        this.lastError = undefined;
+        this.lastSynced = undefined;
+        return this.refresh();
+    }
+
+    async refresh(): Promise<void> {
+        try {
+            this.target = await this.getTarget();
+        } catch (error) {
+            logError('Failed to read the sync status', error);
+        }
+        this.render();
+    }
+
+    private render(): void {
+        const target = this.target;
+        const lastSync = this.lastSync;
+        const lastSyncText = lastSync ? `Last synced ${formatSyncTime(lastSync)}` : 'Not synced yet';
+        const location = target?.provider === 'git' ? 'git remote' : target?.provider === 'http' ? 'sync server' : 'backup folder';
+
+        const status = this.status;
+        this.item.backgroundColor = undefined;
+        switch (status) {
+            case 'syncing':
+                this.item.text = '$(sync~spin) Snippets';
+                this.item.tooltip = 'Syncing snippets…';
+                break;
+            case 'error':
+                this.item.text = '$(error) Snippets';
+                this.item.tooltip = `Snippet sync failed: ${this.lastError}\n${lastSyncText}`;
+                this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                break;
+            case 'unavailable':
+                this.item.text = '$(warning) Snippets';
+                this.item.tooltip = target?.location
+                    ? `The ${location} ${target.location} can't be found\n${lastSyncText}`
+                    : `No ${location} configured, so snippets aren't synced`;
+                this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                break;
+            case 'conflicts':
+                this.item.text = `$(warning) Snippets: ${target!.conflicts} conflict(s)`;
+                this.item.tooltip = `${target!.conflicts} sync conflict(s) to resolve\n${lastSyncText}`;
+                this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                break;
+            default:
+                this.item.text = lastSync ? `$(check) Snippets ${formatSyncTime(lastSync)}` : '$(cloud) Snippets';
+                this.item.tooltip = target?.location ? `Syncing with the ${location} ${target.location}\n${lastSyncText}` : lastSyncText;
+        }
+    }
+
+    dispose(): void {
+        this.item.dispose();
+    }
+}
+
+// Only the time for syncs from today, the date otherwise
+export function formatSyncTime(timestamp: number): string {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString();
+}
@@ -0,0 +1,730 @@
+import { Folder, LibraryData, Snippet, SnippetRevision, SnippetUpdate, SyncState, TrashEntry } from './types';
+import { SnippetStore } from './SnippetStore';
+import { createId, findIdCollisions, ImportMode, remapIds } from './ids';
+import { addTombstones, applyTombstones, pruneTombstones, removeTombstones } from './tombstones';
+import { SnapshotInfo } from './snapshots';
+import { decodeLibrary, encodeLibrary } from './interchange';
+import { compareVersions, stampVersions } from './versions';
+import { log, logError } from '../logger';
+
+// Revisions kept per snippet; older ones are dropped
+export const MAX_REVISIONS_PER_SNIPPET = 50;
+
+// Edits less than a minute apart (e.g. editor autosaves) form one burst and
+// produce a single revision; long bursts are still split every ten minutes
+export const REVISION_COALESCE_MS = 60 * 1000;
+export const MAX_REVISION_BURST_MS = 10 * 60 * 1000;
+
+/**
+ * Folder and snippet operations shared by every store. Subclasses only decide
+ * how the library is read and written; all mutations go through `transaction`.
+ */
+export abstract class BaseStorage implements SnippetStore {
+    private mutationQueue: Promise<unknown> = Promise.resolve();
+    private history: SnippetRevision[] = [];
+    private trash: TrashEntry[] = [];
+    private syncState: SyncState = { base: null, conflicts: [] };
+
+    protected abstract readLibrary(): Promise<LibraryData>;
+
+    protected abstract writeLibrary(data: LibraryData): Promise<void>;
+
+    // History is kept in memory unless a store persists it
+    protected async readHistory(): Promise<SnippetRevision[]> {
+        return this.history;
+    }
+
+    protected async writeHistory(history: SnippetRevision[]): Promise<void> {
+        this.history = history;
+    }
+
+    // Same for the Trash
+    protected async readTrash(): Promise<TrashEntry[]> {
+        return this.trash;
+    }
+
+    protected async writeTrash(trash: TrashEntry[]): Promise<void> {
+        this.trash = trash;
+    }
+
+    // And for the sync state
+    protected async readSyncState(): Promise<SyncState> {
+        return this.syncState;
+    }
+
+    protected async writeSyncState(state: SyncState): Promise<void> {
+        this.syncState = state;
+    }
+
+    // Only stores that keep their library on disk take snapshots
+    async takeSnapshot(_reason: string): Promise<void> {
+        // Nothing to do by default
+    }
+
+    async getSnapshots(): Promise<SnapshotInfo[]> {
+        return [];
+    }
+
+    async readSnapshot(_id: string): Promise<LibraryData> {
+        throw new Error('Snapshot not found');
+    }
+
+    async getSyncState(): Promise<SyncState> {
+        return this.readSyncState();
+    }
+
+    async setSyncState(state: SyncState): Promise<void> {
+        await this.writeSyncState(state);
+    }
+
+    dispose(): void {
+        // Nothing to clean up by default
+    }
+
+    protected async getFoldersData(): Promise<Folder[]> {
+        return (await this.readLibrary()).folders;
+    }
+
+    protected async getSnippetsData(): Promise<Snippet[]> {
+        return (await this.readLibrary()).snippets;
+    }
+
+    async getFolders(): Promise<Folder[]> {
+        return this.getFoldersData();
+    }
+
+    async getSubFolders(parentId: string): Promise<Folder[]> {
+        const folders = await this.getFoldersData();
+        return folders.filter(f => f.parentId === parentId);
+    }
+
+    async getRootFolders(): Promise<Folder[]> {
+        const folders = await this.getFoldersData();
+        return folders.filter(f => f.parentId === null);
+    }
+
+    async getSnippets(): Promise<Snippet[]> {
+        return this.getSnippetsData();
+    }
+
+    async getAllSnippets(): Promise<Snippet[]> {
+        return this.getSnippetsData();
+    }
+
+    async addFolder(name: string, parentId: string | null = null): Promise<void> {
+        await this.transaction(draft => {
+            // Get max order of siblings
+            const siblings = draft.folders.filter(f => f.parentId === parentId);
+            const maxOrder = Math.max(...siblings.map(f => f.order || 0), -1);
+
+            const newFolder: Folder = {
+                id: createId(),
+                name,
+                parentId,
+                type: 'primary',
+                lastModified: Date.now(),
+                order: maxOrder + 1
+            };
+
+            draft.folders.push(newFolder);
+        });
+    }
+
+    async addSnippet(snippet: Omit<Snippet, 'id' | 'lastModified'>): Promise<Snippet> {
+        // Create a properly structured new snippet
+        const newSnippet: Snippet = {
+            id: createId(),
+            name: snippet.name,
+            folderId: snippet.folderId,
+            code: snippet.code || '',
+            language: snippet.language || 'plaintext',
+            notes: snippet.notes || '',
+            tags: snippet.tags || [],
+            lastModified: Date.now(),
+            encrypted: snippet.encrypted || undefined
+        };
+
+
+
+        await this.transaction(draft => {
+            draft.snippets.push(newSnippet);
+        });
+
+        return newSnippet;
+    }
+
+    async deleteFolder(id: string): Promise<void> {
+        await this.takeSnapshot('Before deleting a folder');
+        await this.transaction(async draft => {
+            const folder = draft.folders.find(f => f.id === id);
+            if (!folder) {
+                throw new Error('Folder not found');
+            }
+
+            // The folder goes to the Trash with all of its subfolders and snippets
+            const folders = getFolderSubtree(draft.folders, id);
+            const folderIds = new Set(folders.map(f => f.id));
+            const snippets = draft.snippets.filter(snippet => folderIds.has(snippet.folderId));
+
+            await this.addToTrash({
+                kind: 'folder',
+                name: folder.name,
+                path: getFolderPath(draft.folders, folder.parentId),
+                folders,
+                snippets
+            });
+
+            draft.folders = draft.folders.filter(f => !folderIds.has(f.id));
+            draft.snippets = draft.snippets.filter(snippet => !folderIds.has(snippet.folderId));
+            addTombstones(draft, [
+                ...folders.map(f => ({ id: f.id, kind: 'folder' as const })),
+                ...snippets.map(s => ({ id: s.id, kind: 'snippet' as const }))
+            ]);
+        });
+    }
+
+    async deleteSnippet(id: string): Promise<void> {
+        await this.transaction(async draft => {
+            const snippet = draft.snippets.find(s => s.id === id);
+            if (!snippet) {
+                throw new Error('Snippet not found');
+            }
+
+            const path = getFolderPath(draft.folders, snippet.folderId);
+            await this.addToTrash({
+                kind: 'snippet',
+                name: snippet.name,
+                // Remember the folder even if it is already gone
+                path: path.length > 0 ? path : [{ id: snippet.folderId, name: 'Restored Snippets' }],
+                folders: [],
+                snippets: [snippet]
+            });
+
+            draft.snippets = draft.snippets.filter(s => s.id !== id);
+            addTombstones(draft, [{ id, kind: 'snippet' }]);
+        });
+    }
+
+    async getTrash(): Promise<TrashEntry[]> {
+        const trash = await this.readTrash();
+        return [...trash].sort((a, b) => b.deletedAt - a.deletedAt);
+    }
+
+    // Puts an item back where it was, recreating any folders on its original
+    // path that no longer exist
+    async restoreFromTrash(entryId: string): Promise<void> {
+        await this.transaction(async draft => {
+            const trash = await this.readTrash();
+            const entry = trash.find(e => e.id === entryId);
+            if (!entry) {
+                throw new Error('Item not found in Trash');
+            }
+
+            const now = Date.now();
+            let parentId: string | null = null;
+            for (const ancestor of entry.path) {
+                const existing = draft.folders.find(f => f.id === ancestor.id) ||
+                    draft.folders.find(f => f.parentId === parentId && f.name === ancestor.name);
+                if (existing) {
+                    parentId = existing.id;
+                    continue;
+                }
+
+                const siblings = draft.folders.filter(f => f.parentId === parentId);
+                draft.folders.push({
+                    id: ancestor.id,
+                    name: ancestor.name,
+                    parentId,
+                    type: 'primary',
+                    lastModified: now,
+                    order: Math.max(...siblings.map(f => f.order || 0), -1) + 1
+                });
+                parentId = ancestor.id;
+            }
+
+            const folderIds = new Set(entry.folders.map(f => f.id));
+            const snippetIds = new Set(entry.snippets.map(s => s.id));
+            const folders = entry.folders.map(folder => ({
+                ...folder,
+                parentId: folder.id === entry.folders[0].id ? parentId : folder.parentId,
+                lastModified: now
+            }));
+            const snippets = entry.snippets.map(snippet => ({
+                ...snippet,
+                folderId: entry.kind === 'snippet' ? parentId! : snippet.folderId,
+                lastModified: now
+            }));
+
+            draft.folders = [...draft.folders.filter(f => !folderIds.has(f.id)), ...folders];
+            draft.snippets = [...draft.snippets.filter(s => !snippetIds.has(s.id)), ...snippets];
+            removeTombstones(draft, [
+                ...entry.path.map(p => ({ id: p.id, kind: 'folder' as const })),
+                ...folders.map(f => ({ id: f.id, kind: 'folder' as const })),
+                ...snippets.map(s => ({ id: s.id, kind: 'snippet' as const }))
+            ]);
+            await this.writeTrash(trash.filter(e => e.id !== entryId));
+        });
+    }
+
+    async deleteFromTrash(entryId: string): Promise<void> {
+        await this.transaction(async () => {
+            const trash = await this.readTrash();
+            await this.writeTrash(trash.filter(e => e.id !== entryId));
+        });
+    }
+
+    async emptyTrash(): Promise<void> {
+        await this.transaction(async () => {
+            await this.writeTrash([]);
+        });
+    }
+
+    // Permanently deletes everything that went to the Trash before `olderThan`
+    async purgeTrash(olderThan: number): Promise<number> {
+        const trash = await this.readTrash();
+        if (!trash.some(e => e.deletedAt < olderThan)) {
+            return 0;
+        }
+
+        return this.transaction(async () => {
+            const current = await this.readTrash();
+            const kept = current.filter(e => e.deletedAt >= olderThan);
+            await this.writeTrash(kept);
+            return current.length - kept.length;
+        });
+    }
+
+    private async addToTrash(entry: Omit<TrashEntry, 'id' | 'deletedAt'>): Promise<void> {
+        const now = Date.now();
+        const trash = await this.readTrash();
+        await this.writeTrash([...trash, { ...entry, id: createId(), deletedAt: now }]);
+    }
+
+    async updateSnippet(update: SnippetUpdate): Promise<void> {
+        await this.transaction(async draft => {
+            const snippetIndex = draft.snippets.findIndex(s => s.id === update.id);
+
+            if (snippetIndex === -1) {
+                logError('Snippet not found', update.id);
+                throw new Error('Snippet not found');
+            }
+
+            // Create a new snippet object with the updates
+            const currentSnippet = draft.snippets[snippetIndex];
+            if (hasContentChanges(currentSnippet, update)) {
+                await this.recordRevision(currentSnippet, false);
+            }
+            draft.snippets[snippetIndex] = {
+                ...currentSnippet,
+                code: update.code !== undefined ? update.code : currentSnippet.code,
+                notes: update.notes !== undefined ? update.notes : currentSnippet.notes,
+                language: update.language !== undefined ? update.language : currentSnippet.language,
+                tags: update.tags !== undefined ? update.tags : currentSnippet.tags,
+                folderId: update.folderId !== undefined ? update.folderId : currentSnippet.folderId,
+                lastModified: Date.now()
+            };
+        });
+    }
+
+    async getHistory(snippetId: string): Promise<SnippetRevision[]> {
+        const history = await this.readHistory();
+        return history
+            .filter(revision => revision.snippetId === snippetId)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async restoreRevision(snippetId: string, revisionId: string): Promise<void> {
+        await this.transaction(async draft => {
+            const index = draft.snippets.findIndex(s => s.id === snippetId);
+            if (index === -1) {
+                throw new Error('Snippet not found');
+            }
+            const revision = (await this.readHistory()).find(r => r.id === revisionId && r.snippetId === snippetId);
+            if (!revision) {
+                throw new Error('Revision not found');
+            }
+
+            // Keep the version being replaced, so a restore can be undone
+            await this.recordRevision(draft.snippets[index], true);
+            draft.snippets[index] = {
+                ...draft.snippets[index],
+                code: revision.code,
+                notes: revision.notes,
+                language: revision.language,
+                tags: [...revision.tags],
+                encrypted: revision.encrypted || undefined,
+                lastModified: Date.now()
+            };
+        });
+    }
+
+    async clearHistory(snippetId: string): Promise<void> {
+        await this.transaction(async () => {
+            const history = await this.readHistory();
+            await this.writeHistory(history.filter(r => r.snippetId !== snippetId));
+        });
+    }
+
+    async discardEarlierCopies(snippetIds: string[]): Promise<void> {
+        const ids = new Set(snippetIds);
+        await this.transaction(async () => {
+            const history = await this.readHistory();
+            await this.writeHistory(history.filter(r => !ids.has(r.snippetId)));
+        });
+    }
+
+    // Saves the snippet's current content before it is overwritten. Only the
+    // first edit of a burst is recorded unless `force` is set.
+    private async recordRevision(snippet: Snippet, force: boolean): Promise<void> {
+        const now = Date.now();
+        const history = await this.readHistory();
+        const own = history.filter(r => r.snippetId === snippet.id);
+        const latest = own.reduce<SnippetRevision | undefined>((a, b) => (!a || b.timestamp > a.timestamp ? b : a), undefined);
+
+        const inBurst = latest !== undefined &&
+            now - snippet.lastModified < REVISION_COALESCE_MS &&
+            now - latest.timestamp < MAX_REVISION_BURST_MS;
+        if (!force && inBurst) {
+            return;
+        }
+
+        const revision: SnippetRevision = {
+            id: createId(),
+            snippetId: snippet.id,
+            timestamp: now,
+            code: snippet.code || '',
+            notes: snippet.notes || '',
+            language: snippet.language || 'plaintext',
+            tags: Array.isArray(snippet.tags) ? [...snippet.tags] : [],
+            encrypted: snippet.encrypted || undefined
+        };
+
+        // Drop the oldest revisions of this snippet beyond the limit
+        const kept = [...own, revision]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, MAX_REVISIONS_PER_SNIPPET);
+        await this.writeHistory([...history.filter(r => r.snippetId !== snippet.id), ...kept]);
+    }
+
+    async getSnippet(snippetId: string): Promise<Snippet | undefined> {
+        const snippets = await this.getSnippetsData();
+        return snippets.find(s => s.id === snippetId);
+    }
+    async getAllData(): Promise<LibraryData> {
+        return this.readLibrary();
+    }
+
+    // Runs a read-modify-write against a fresh copy of the library. Transactions
+    // are queued so they never interleave; the library is written once when the
+    // callback returns, and nothing is written if it throws.
+    async transaction<T>(mutate: (draft: LibraryData) => T | Promise<T>): Promise<T> {
+        const run = this.mutationQueue.then(async () => {
+            const draft = await this.getAllData();
+            const before: LibraryData = JSON.parse(JSON.stringify(draft));
+            const result = await mutate(draft);
+
+            stampVersions(before, draft);
+
+            if (draft.tombstones) {
+                draft.tombstones = pruneTombstones(draft.tombstones);
+            }
+            await this.writeLibrary(draft);
+
+            return result;
+        });
+
+        // Keep the queue going even when a transaction fails
+        this.mutationQueue = run.catch(() => undefined);
+        return run;
+    }
+    async syncData(data: LibraryData): Promise<void> {
+        await this.takeSnapshot('Before replacing the library');
+        await this.transaction(draft => {
+            draft.folders = data.folders;
+            draft.snippets = data.snippets;
+            // Items in the new data are wanted, even if they were deleted before
+            const tombstones = data.tombstones || draft.tombstones || [];
+            const folderIds = new Set(data.folders.map(f => f.id));
+            const snippetIds = new Set(data.snippets.map(s => s.id));
+            draft.tombstones = tombstones.filter(t => t.kind === 'folder' ? !folderIds.has(t.id) : !snippetIds.has(t.id));
+        });
+    }
+
+    async renameFolder(folderId: string, newName: string): Promise<void> {
+        await this.transaction(draft => {
+            const folderIndex = draft.folders.findIndex(f => f.id === folderId);
+
+            if (folderIndex !== -1) {
+                draft.folders[folderIndex] = {
+                    ...draft.folders[folderIndex],
+                    name: newName,
+                    lastModified: Date.now()
+                };
+            }
+        });
+    }
+
+    async renameSnippet(snippetId: string, newName: string): Promise<void> {
+        await this.transaction(draft => {
+            const snippetIndex = draft.snippets.findIndex(s => s.id === snippetId);
+
+            if (snippetIndex !== -1) {
+                draft.snippets[snippetIndex] = {
+                    ...draft.snippets[snippetIndex],
+                    name: newName,
+                    lastModified: Date.now()
+                };
+            }
+        });
+    }
+
+    async exportData(): Promise<string> {
+        try {
+            // Deletions are sync bookkeeping, not part of an export
+            const { folders, snippets } = await this.getAllData();
+            return JSON.stringify(encodeLibrary({ folders, snippets }), null, 2);
+        } catch (error: any) {
+            logError('Error exporting data', error);
+            throw new Error(`Failed to export data: ${error.message}`);
+        }
+    }
+
+    async importData(jsonData: string, mode: ImportMode = 'merge'): Promise<void> {
+        try {
+            let { folders, snippets } = decodeLibrary(JSON.parse(jsonData), 'The import file');
+
+            await this.takeSnapshot('Before importing snippets');
+            await this.transaction(draft => {
+                if (mode === 'remap') {
+                    const collisions = findIdCollisions(draft, { folders, snippets });
+                    if (collisions.size > 0) {
+                        log(`Import: giving ${collisions.size} item(s) with colliding IDs new IDs`);
+                        ({ folders, snippets } = remapIds({ folders, snippets }, collisions));
+                    }
+                }
+
+                // Create a map of existing folders and snippets
+                const existingFolders = new Map(draft.folders.map(f => [f.id, f]));
+                const existingSnippets = new Map(draft.snippets.map(s => [s.id, s]));
+
+                // Merge folders
+                const mergedFolders = new Map<string, Folder>();
+
+                // Add existing folders
+                existingFolders.forEach((folder, id) => {
+                    mergedFolders.set(id, {
+                        ...folder,
+                        lastModified: folder.lastModified || Date.now()
+                    });
+                });
+
+                // Add/update imported folders
+                folders.forEach((folder: Folder) => {
+                    const existingFolder = mergedFolders.get(folder.id);
+                    if (!existingFolder || supersedes(folder, existingFolder)) {
+                        mergedFolders.set(folder.id, {
+                            ...folder,
+                            lastModified: folder.lastModified
+                        });
+                    }
+                });
+
+                // Merge snippets
+                const mergedSnippets = new Map<string, Snippet>();
+
+                // Add existing snippets
+                existingSnippets.forEach((snippet, id) => {
+                    mergedSnippets.set(id, {
+                        ...snippet,
+                        lastModified: snippet.lastModified || Date.now()
+                    });
+                });
+
+                // Add/update imported snippets
+                snippets.forEach((snippet: Snippet) => {
+                    const existingSnippet = mergedSnippets.get(snippet.id);
+                    if (!existingSnippet || supersedes(snippet, existingSnippet)) {
+                        mergedSnippets.set(snippet.id, {
+                            ...snippet,
+                            lastModified: snippet.lastModified
+                        });
+                    }
+                });
+
+                // Convert maps back to arrays
+                draft.folders = Array.from(mergedFolders.values());
+                draft.snippets = Array.from(mergedSnippets.values());
+
+                // Don't bring back anything that was deleted here
+                applyTombstones(draft);
+            });
+        } catch (error: any) {
+            logError('Error importing data', error);
+            throw new Error(`Failed to import data: ${error.message}`);
+        }
+    }
+
+    async updateFolderParent(folderId: string, newParentId: string | null): Promise<void> {
+        await this.transaction(draft => {
+            draft.folders = draft.folders.map(folder => {
+                if (folder.id === folderId) {
+                    return { ...folder, parentId: newParentId, lastModified: Date.now() };
+                }
+                return folder;
+            });
+        });
+    }
+
+    async moveFolder(sourcePath: string, targetPath: string): Promise<void> {
+        try {
+            await this.transaction(draft => {
+                // Find the folder to move
+                const folderToMove = draft.folders.find(f => f.id === sourcePath);
+                if (!folderToMove) {
+                    throw new Error('Source folder not found');
+                }
+
+                // Update the folder's parent ID
+                if (targetPath === '') {
+                    // Moving to root
+                    folderToMove.parentId = null;
+                } else {
+                    // Moving to another folder
+                    folderToMove.parentId = targetPath;
+                }
+
+                // Update last modified timestamp
+                folderToMove.lastModified = Date.now();
+            });
+        } catch (error) {
+            throw new Error(`Failed to move folder: ${error}`);
+        }
+    }
+
+    async updateFolderOrder(folderId: string, direction: 'up' | 'down'): Promise<void> {
+        try {
+            await this.transaction(draft => {
+                const folders = draft.folders;
+
+                // Get current folder
+                const currentFolder = folders.find(f => f.id === folderId);
+                if (!currentFolder) {
+                    throw new Error('Folder not found');
+                }
+
+                // Get siblings (folders with same parent)
+                const siblings = folders
+                    .filter(f => f.parentId === currentFolder.parentId)
+                    .sort((a, b) => (a.order || 0) - (b.order || 0));
+
+                const currentIndex = siblings.findIndex(f => f.id === folderId);
+                if (currentIndex === -1) {
+                    throw new Error('Current folder not found in siblings');
+                }
+
+                // Calculate target index
+                const targetIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+                if (targetIndex < 0 || targetIndex >= siblings.length) {
+                    return; // Can't move further
+                }
+
+                // Get target folder
+                const targetFolder = siblings[targetIndex];
+
+                // If folders don't have order yet, initialize them
+                if (currentFolder.order === undefined) {
+                    // Initialize orders for all siblings if they don't exist
+                    siblings.forEach((folder, index) => {
+                        folder.order = index * 100; // Use multiples of 100 to leave room for insertions
+                    });
+                }
+
+                // Swap orders
+                const tempOrder = currentFolder.order;
+                currentFolder.order = targetFolder.order;
+                targetFolder.order = tempOrder;
+            });
+        } catch (error) {
+            logError('Error updating folder order', error);
+            throw new Error(`Failed to update folder order: ${error}`);
+        }
+    }
+
+    async duplicateSnippet(id: string): Promise<Snippet> {
+        return this.transaction(draft => {
+            const source = draft.snippets.find(s => s.id === id);
+            if (!source) {
+                throw new Error('Snippet not found');
+            }
+            const copy: Snippet = {
+                ...source,
+                id: createId(),
+                name: `${source.name} (copy)`,
+                lastModified: Date.now(),
+                pinned: false
+            };
+            draft.snippets.push(copy);
+            return copy;
+        });
+    }
+
+    async togglePinSnippet(id: string): Promise<void> {
+        await this.transaction(draft => {
+            const index = draft.snippets.findIndex(s => s.id === id);
+            if (index === -1) {
+                throw new Error('Snippet not found');
+            }
+            draft.snippets[index] = {
+                ...draft.snippets[index],
+                pinned: !draft.snippets[index].pinned,
+                lastModified: Date.now()
+            };
+        });
+    }
+}
+
+function hasContentChanges(snippet: Snippet, update: SnippetUpdate): boolean {
+    return (update.code !== undefined && update.code !== snippet.code) ||
+        (update.notes !== undefined && update.notes !== snippet.notes) ||
+        (update.language !== undefined && update.language !== snippet.language) ||
+        (update.tags !== undefined && JSON.stringify(update.tags) !== JSON.stringify(snippet.tags || []));
+}
+
+// Whether an imported item replaces the one here: only if it has seen every
+// edit made to it. Items edited on both sides are kept as they are here.
+function supersedes(incoming: Folder | Snippet, existing: Folder | Snippet): boolean {
+    // Items from before version vectors are ordered by their timestamps
+    if (!incoming.version || !existing.version) {
+        return incoming.lastModified > existing.lastModified;
+    }
+    const order = compareVersions(incoming.version, existing.version);
+    if (order === 'concurrent') {
+        log(`Import: kept the local version of "${existing.name}", which was also edited in the import`);
+    }
+    return order === 'after';
+}
+
+// The folder followed by all of its descendants
+export function getFolderSubtree(folders: Folder[], folderId: string): Folder[] {
+    const root = folders.find(f => f.id === folderId);
+    if (!root) {
+        return [];
+    }
+    const subtree: Folder[] = [root];
+    for (let i = 0; i < subtree.length; i++) {
+        subtree.push(...folders.filter(f => f.parentId === subtree[i].id && !subtree.includes(f)));
+    }
+    return subtree;
+}
+
+// The chain of folders from the top level down to `folderId`
+function getFolderPath(folders: Folder[], folderId: string | null): { id: string; name: string }[] {
+    const path: { id: string; name: string }[] = [];
+    let current = folders.find(f => f.id === folderId);
+    while (current && !path.some(p => p.id === current!.id)) {
+        path.unshift({ id: current.id, name: current.name });
+        const parentId: string | null = current.parentId;
+        current = folders.find(f => f.id === parentId);
+    }
+    return path;
+}
@@ -0,0 +1,371 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Folder, LibraryData, Snippet, VersionVector } from './types';
+import { LocalStorage } from './LocalStorage';
+import { assertSupportedSchema, CURRENT_SCHEMA_VERSION } from './migrations';
+import { getLanguageExtension, getLanguageForExtension } from '../languages';
+import { logError } from '../logger';
+
+const HEADER_FILE = '.vs-snippets.json';
+const FOLDER_META_FILE = '.folder.json';
+const SNIPPET_META_SUFFIX = '.meta.json';
+const TOMBSTONES_FILE = '.tombstones.json';
+
+// Sidecar written next to every snippet source file
+interface SnippetMeta {
+    id: string;
+    name: string;
+    language: string;
+    tags: string[];
+    notes: string;
+    pinned: boolean;
+    lastModified: number;
+    encrypted?: boolean;
+    prefix?: string[];
+    version?: VersionVector;
+    folderId?: string;  // Only for snippets whose folder no longer exists
+}
+
+interface FolderMeta {
+    id: string;
+    name: string;
+    type: 'primary' | 'secondary';
+    order?: number;
+    lastModified: number;
+    encrypted?: boolean;
+    localOnly?: boolean;
+    version?: VersionVector;
+    parentId?: string | null;  // Only for folders that can't be nested under their parent
+}
+
+/**
+ * Stores the library as a directory tree under `<storage>/library`: one
+ * directory per folder and one real source file per snippet, with its
+ * metadata in a `<file>.meta.json` sidecar. Plain source files dropped into a
+ * folder directory are picked up as snippets as well.
+ */
+export class FileTreeStorage extends LocalStorage {
+    // The files the library was last written as, to only touch what changed
+    private lastLayout: Map<string, string> | undefined;
+
+    protected get libraryPath(): string {
+        return path.join(this.storagePath, 'library');
+    }
+
+    // Kept inside the library so it travels with it, e.g. in a git repository
+    protected get tombstonesPath(): string {
+        return path.join(this.libraryPath, TOMBSTONES_FILE);
+    }
+
+    protected async initializeStorage(): Promise<void> {
+        try {
+            await fs.promises.mkdir(this.libraryPath, { recursive: true });
+
+            const headerPath = path.join(this.libraryPath, HEADER_FILE);
+            if (await this.fileExists(headerPath)) {
+                const header = JSON.parse(await fs.promises.readFile(headerPath, 'utf8'));
+                assertSupportedSchema(header.schemaVersion, `The snippet library in ${this.libraryPath}`);
+            }
+
+            await this.writeFileIfChanged(headerPath, JSON.stringify({ format: 'files', schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2));
+        } catch (error) {
+            logError('Error initializing file tree storage', error);
+            throw error;
+        }
+    }
+
+    protected getWatchPattern(): vscode.GlobPattern {
+        return new vscode.RelativePattern(this.libraryPath, '**/*');
+    }
+
+    protected invalidateCache(): void {
+        super.invalidateCache();
+        this.lastLayout = undefined;
+    }
+
+    protected async loadLibrary(): Promise<LibraryData> {
+        await this.waitForInitialization();
+        const data: LibraryData = { folders: [], snippets: [], tombstones: await this.readTombstones() };
+        await this.readDirectory(this.libraryPath, null, data);
+        return data;
+    }
+
+    private async readDirectory(dirPath: string, folderId: string | null, data: LibraryData): Promise<void> {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        const fileNames = new Set(entries.filter(e => e.isFile()).map(e => e.name));
+
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+            const entryPath = path.join(dirPath, entry.name);
+
+            if (entry.isDirectory()) {
+                const folder = await this.readFolder(entryPath, folderId);
+                data.folders.push(folder);
+                await this.readDirectory(entryPath, folder.id, data);
+            } else if (entry.name.endsWith(SNIPPET_META_SUFFIX)) {
+                const codeFile = entry.name.slice(0, -SNIPPET_META_SUFFIX.length);
+                const snippet = await this.readSnippet(path.join(dirPath, codeFile), folderId);
+                if (snippet) {
+                    data.snippets.push(snippet);
+                }
+            } else if (folderId !== null && !fileNames.has(entry.name + SNIPPET_META_SUFFIX)) {
+                // A source file added by hand (or pulled from git) without metadata yet
+                data.snippets.push(await this.adoptSourceFile(entryPath, folderId));
+            }
+        }
+    }
+
+    private async readFolder(dirPath: string, parentId: string | null): Promise<Folder> {
+        const metaPath = path.join(dirPath, FOLDER_META_FILE);
+        let meta: Partial<FolderMeta> = {};
+        try {
+            meta = JSON.parse(await fs.promises.readFile(metaPath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logError(`Error reading ${metaPath}`, error);
+            }
+        }
+
+        const stats = await fs.promises.stat(dirPath);
+        return {
+            id: meta.id || `dir:${path.relative(this.libraryPath, dirPath).split(path.sep).join('/')}`,
+            name: meta.name || path.basename(dirPath),
+            parentId: meta.parentId !== undefined ? meta.parentId : parentId,
+            type: meta.type === 'secondary' ? 'secondary' : 'primary',
+            lastModified: meta.lastModified || Math.floor(stats.mtimeMs),
+            order: meta.order,
+            encrypted: meta.encrypted || undefined,
+            localOnly: meta.localOnly || undefined,
+            version: meta.version
+        };
+    }
+
+    private async readSnippet(codePath: string, folderId: string | null): Promise<Snippet | undefined> {
+        const metaPath = codePath + SNIPPET_META_SUFFIX;
+        try {
+            const meta: Partial<SnippetMeta> = JSON.parse(await fs.promises.readFile(metaPath, 'utf8'));
+            const code = await this.fileExists(codePath) ? await fs.promises.readFile(codePath, 'utf8') : '';
+            const snippetFolderId = meta.folderId ?? folderId;
+            if (!meta.id || !snippetFolderId) {
+                logError(`Skipping snippet without id or folder: ${metaPath}`);
+                return undefined;
+            }
+
+            return {
+                id: meta.id,
+                name: meta.name || path.basename(codePath, path.extname(codePath)),
+                folderId: snippetFolderId,
+                code,
+                language: meta.language || getLanguageForExtension(path.extname(codePath)),
+                notes: meta.notes || '',
+                tags: Array.isArray(meta.tags) ? meta.tags : [],
+                lastModified: meta.lastModified || Date.now(),
+                pinned: meta.pinned ?? false,
+                encrypted: meta.encrypted || undefined,
+                prefix: Array.isArray(meta.prefix) ? meta.prefix : undefined,
+                version: meta.version
+            };
+        } catch (error) {
+            logError(`Error reading snippet metadata ${metaPath}`, error);
+            return undefined;
+        }
+    }
+
+    private async adoptSourceFile(codePath: string, folderId: string): Promise<Snippet> {
+        const stats = await fs.promises.stat(codePath);
+        const extension = path.extname(codePath);
+        return {
+            id: `file:${path.relative(this.libraryPath, codePath).split(path.sep).join('/')}`,
+            name: path.basename(codePath, extension),
+            folderId,
+            code: await fs.promises.readFile(codePath, 'utf8'),
+            language: getLanguageForExtension(extension),
+            notes: '',
+            tags: [],
+            lastModified: Math.floor(stats.mtimeMs),
+            pinned: false
+        };
+    }
+
+    protected async saveLibraryData(data: LibraryData): Promise<void> {
+        await this.waitForInitialization();
+
+        const previous = this.lastLayout;
+        const desired = this.layoutLibrary(data);
+        this.lastLayout = undefined;
+
+        for (const [filePath, content] of desired) {
+            if (previous?.get(filePath) === content) {
+                continue;
+            }
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await this.writeFileIfChanged(filePath, content);
+        }
+
+        // Only look for stale files when something was renamed, moved or deleted
+        const hasRemovals = !previous || Array.from(previous.keys()).some(filePath => !desired.has(filePath));
+        if (hasRemovals) {
+            await this.removeStaleFiles(this.libraryPath, desired);
+        }
+        this.lastLayout = desired;
+    }
+
+    // Maps every folder and snippet to the files that represent it
+    private layoutLibrary(data: LibraryData): Map<string, string> {
+        const files = new Map<string, string>();
+        const folderDirs = new Map<string, string>();
+        const usedNames = new Map<string, Set<string>>();
+
+        const claimName = (dirPath: string, name: string): string => {
+            const used = usedNames.get(dirPath) || new Set<string>();
+            usedNames.set(dirPath, used);
+            const extension = path.extname(name);
+            const base = name.slice(0, name.length - extension.length);
+            let candidate = name;
+            for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+                candidate = `${base} (${i})${extension}`;
+            }
+            used.add(candidate.toLowerCase());
+            return candidate;
+        };
+
+        const byOrder = (a: Folder, b: Folder) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+
+        const placeFolder = (folder: Folder, parentDir: string, keepParentId: boolean) => {
+            const dirPath = path.join(parentDir, claimName(parentDir, toFileName(folder.name, 'folder')));
+            folderDirs.set(folder.id, dirPath);
+
+            const meta: FolderMeta = {
+                id: folder.id,
+                name: folder.name,
+                type: folder.type || 'primary',
+                order: folder.order,
+                lastModified: folder.lastModified || Date.now(),
+                encrypted: folder.encrypted || undefined,
+                localOnly: folder.localOnly || undefined,
+                version: folder.version
+            };
+            if (keepParentId) {
+                meta.parentId = folder.parentId;
+            }
+            files.set(path.join(dirPath, FOLDER_META_FILE), JSON.stringify(meta, null, 2) + '\n');
+
+            data.folders
+                .filter(child => child.parentId === folder.id && !folderDirs.has(child.id))
+                .sort(byOrder)
+                .forEach(child => placeFolder(child, dirPath, false));
+        };
+
+        data.folders
+            .filter(folder => folder.parentId === null)
+            .sort(byOrder)
+            .forEach(folder => placeFolder(folder, this.libraryPath, false));
+
+        // Folders with a missing parent or in a parent cycle go to the top
+        // level and remember their parent so nothing is lost
+        data.folders
+            .filter(folder => !folderDirs.has(folder.id))
+            .sort(byOrder)
+            .forEach(folder => {
+                if (!folderDirs.has(folder.id)) {
+                    placeFolder(folder, this.libraryPath, true);
+                }
+            });
+
+        data.snippets.forEach(snippet => {
+            const folderDir = folderDirs.get(snippet.folderId);
+            const dirPath = folderDir || this.libraryPath;
+            const extension = getLanguageExtension(snippet.language || 'plaintext');
+            let fileName = toFileName(snippet.name, 'snippet');
+            if (!fileName.toLowerCase().endsWith(`.${extension}`)) {
+                fileName = `${fileName}.${extension}`;
+            }
+            const codePath = path.join(dirPath, claimName(dirPath, fileName));
+
+            const meta: SnippetMeta = {
+                id: snippet.id,
+                name: snippet.name,
+                language: snippet.language || 'plaintext',
+                tags: Array.isArray(snippet.tags) ? snippet.tags : [],
+                notes: snippet.notes || '',
+                pinned: snippet.pinned ?? false,
+                lastModified: snippet.lastModified || Date.now(),
+                encrypted: snippet.encrypted || undefined,
+                prefix: snippet.prefix,
+                version: snippet.version
+            };
+            if (!folderDir) {
+                meta.folderId = snippet.folderId;
+            }
+
+            files.set(codePath, snippet.code || '');
+            files.set(codePath + SNIPPET_META_SUFFIX, JSON.stringify(meta, null, 2) + '\n');
+        });
+
+        return files;
+    }
+
+    // Deletes files this backend wrote before but no longer needs, leaving
+    // anything else in the library directory (README, .git, ...) alone
+    private async removeStaleFiles(dirPath: string, desired: Map<string, string>): Promise<boolean> {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        const fileNames = new Set(entries.filter(e => e.isFile()).map(e => e.name));
+        let remaining = entries.length;
+
+        for (const entry of entries) {
+            const entryPath = path.join(dirPath, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name.startsWith('.')) {
+                    continue;
+                }
+                const isEmpty = await this.removeStaleFiles(entryPath, desired);
+                if (isEmpty) {
+                    await fs.promises.rmdir(entryPath);
+                    await this.noteOwnWrite(entryPath);
+                    remaining--;
+                }
+                continue;
+            }
+
+            const isManaged = entry.name === FOLDER_META_FILE ||
+                entry.name.endsWith(SNIPPET_META_SUFFIX) ||
+                fileNames.has(entry.name + SNIPPET_META_SUFFIX) ||
+                (dirPath !== this.libraryPath && !entry.name.startsWith('.'));
+            if (isManaged && !desired.has(entryPath) && entry.name !== HEADER_FILE) {
+                await fs.promises.unlink(entryPath);
+                await this.noteOwnWrite(entryPath);
+                remaining--;
+            }
+        }
+
+        return remaining === 0 && dirPath !== this.libraryPath;
+    }
+
+    private async writeFileIfChanged(filePath: string, content: string): Promise<void> {
+        try {
+            if (await fs.promises.readFile(filePath, 'utf8') === content) {
+                return;
+            }
+        } catch {
+            // File doesn't exist yet
+        }
+
+        // Dot-prefixed so a leftover temp file is never picked up as a snippet
+        const tmpPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.tmp`);
+        await this.writeAndSync(tmpPath, content);
+        await fs.promises.rename(tmpPath, filePath);
+        await this.noteOwnWrite(filePath);
+    }
+}
+
+// Turns a folder or snippet name into something every file system accepts
+function toFileName(name: string, fallback: string): string {
+    const cleaned = name
+        .replace(/[\\/:*?"<>|\x00-\x1f]/g, '-')
+        .replace(/^[\s.]+|[\s.]+$/g, '')
+        .slice(0, 120);
+    return cleaned || fallback;
+}
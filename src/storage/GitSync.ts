@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { LibraryData } from './types';
+import { LocalStorage } from './LocalStorage';
+import { RemoteSync } from './RemoteSync';
+import { decodeLibrary, encodeLibrary } from './interchange';
+import { selectSyncedData } from './selectiveSync';
+import { describeChanges } from './merge';
+import { DEFAULT_LIBRARY } from './libraries';
+import { logError } from '../logger';
+
+const LIBRARY_FILE = 'snippets.json';
+
+// Changes are committed once the library has been quiet for this long
+const COMMIT_DEBOUNCE_MS = 2000;
+
+// Fetching or pushing over a slow connection shouldn't hang forever
+const GIT_TIMEOUT_MS = 60 * 1000;
+
+const REMOTE_REF = 'refs/remotes/origin/sync';
+
+// Each library syncs to its own branch of the remote
+export function getGitBranch(library: string): string {
+    const branch = vscode.workspace.getConfiguration('snippets').get<string>('gitBranch') || 'main';
+    return library === DEFAULT_LIBRARY ? branch : `${branch}-${library.replace(/[^\w.-]+/g, '-')}`;
+}
+
+/**
+ * Keeps a copy of a library in a local git repository and commits every
+ * change to it, so the library has a full history. Syncing fetches the
+ * configured remote (a URL, a path or a bare repository), hands the remote
+ * copy over for the three-way merge, then commits the result as a merge and
+ * pushes it.
+ */
+export class GitSync implements RemoteSync {
+    readonly label = 'the git remote';
+    private queue: Promise<unknown> = Promise.resolve();
+    private pendingCommit: LibraryData | undefined;
+    private commitTimer: NodeJS.Timeout | undefined;
+    private subscription: vscode.Disposable;
+
+    constructor(
+        private repoPath: string,
+        private remote: string | undefined,
+        private branch: string,
+        store: LocalStorage
+    ) {
+        this.subscription = store.onDidWrite(data => this.scheduleCommit(data));
+    }
+
+    get hasRemote(): boolean {
+        return !!this.remote;
+    }
+
+    private scheduleCommit(data: LibraryData): void {
+        this.pendingCommit = data;
+        clearTimeout(this.commitTimer);
+        this.commitTimer = setTimeout(() => {
+            this.flush().catch(error => logError('Failed to commit snippet changes', error));
+        }, COMMIT_DEBOUNCE_MS);
+    }
+
+    // Commits pending changes right away
+    async flush(): Promise<void> {
+        clearTimeout(this.commitTimer);
+        const data = this.pendingCommit;
+        this.pendingCommit = undefined;
+        if (data) {
+            await this.exclusive(() => this.commit(data));
+        }
+    }
+
+    /**
+     * Fetches the remote branch and returns the library stored there, or null
+     * if there is no remote or the branch doesn't exist yet.
+     */
+    async fetch(): Promise<LibraryData | null> {
+        await this.flush();
+        return this.exclusive(async () => {
+            await this.ensureRepository();
+            if (!this.remote || !await this.fetchRemote()) {
+                return null;
+            }
+
+            return decodeLibrary(JSON.parse(await this.git('show', `${REMOTE_REF}:${LIBRARY_FILE}`)), 'The git remote');
+        });
+    }
+
+    /**
+     * Commits the merged library on top of the fetched remote branch and
+     * pushes it. Fails if someone else pushed in the meantime; syncing again
+     * merges their changes too.
+     */
+    async publish(data: LibraryData): Promise<void> {
+        // Writes made by the merge itself are recorded by the merge commit
+        clearTimeout(this.commitTimer);
+        this.pendingCommit = undefined;
+        await this.exclusive(async () => {
+            await this.ensureRepository();
+            const fetched = await this.hasCommit(REMOTE_REF);
+            if (!await this.hasCommit('HEAD')) {
+                if (fetched) {
+                    // A new device continues the remote's history
+                    await this.git('reset', '-q', REMOTE_REF);
+                } else {
+                    await this.commit(data, 'Start snippet library');
+                }
+            }
+
+            if (fetched && !await this.isAncestor(REMOTE_REF, 'HEAD')) {
+                // The content is already merged; only record the remote as a parent
+                await this.git('merge', '-s', 'ours', '--no-ff', '--no-commit', '--allow-unrelated-histories', REMOTE_REF);
+                try {
+                    await this.writeLibrary(data);
+                    await this.git('add', LIBRARY_FILE);
+                    await this.git('commit', '-m', `Merge snippets from ${this.remote}`);
+                } catch (error) {
+                    await this.git('merge', '--abort').catch(() => undefined);
+                    throw error;
+                }
+            } else {
+                await this.commit(data);
+            }
+
+            if (this.remote) {
+                try {
+                    await this.git('push', 'origin', `HEAD:refs/heads/${this.branch}`);
+                } catch (error) {
+                    throw new Error(`The remote has changes that were pushed while syncing. Sync again to merge them. (${error instanceof Error ? error.message : error})`);
+                }
+            }
+        });
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this.flush().catch(error => logError('Failed to commit snippet changes', error));
+    }
+
+    // Git commands must not overlap, so every operation waits for the previous one
+    private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async commit(data: LibraryData, message?: string): Promise<void> {
+        await this.ensureRepository();
+        const previous = await this.readCommittedLibrary();
+        const description = message || describeChanges(previous, decodeLibrary(encodeLibrary(selectSyncedData(data)), LIBRARY_FILE));
+        if (!description && await this.hasCommit('HEAD')) {
+            return;
+        }
+
+        await this.writeLibrary(data);
+        await this.git('add', LIBRARY_FILE);
+        if (await this.git('status', '--porcelain', '--', LIBRARY_FILE)) {
+            await this.git('commit', '-m', description || 'Update snippet library');
+        }
+    }
+
+    private async readCommittedLibrary(): Promise<LibraryData> {
+        try {
+            return decodeLibrary(JSON.parse(await this.git('show', `HEAD:${LIBRARY_FILE}`)), LIBRARY_FILE);
+        } catch {
+            return { folders: [], snippets: [], tombstones: [] };
+        }
+    }
+
+    private async writeLibrary(data: LibraryData): Promise<void> {
+        await fs.promises.writeFile(path.join(this.repoPath, LIBRARY_FILE), JSON.stringify(encodeLibrary(selectSyncedData(data)), null, 2));
+    }
+
+    private async ensureRepository(): Promise<void> {
+        if (!await exists(path.join(this.repoPath, '.git'))) {
+            await fs.promises.mkdir(this.repoPath, { recursive: true });
+            await this.git('init');
+            await this.git('symbolic-ref', 'HEAD', `refs/heads/${this.branch}`);
+        }
+
+        // Commits need an author even if the user never configured git
+        if (!await this.git('config', 'user.email').catch(() => '')) {
+            await this.git('config', 'user.name', 'VS Snippets');
+            await this.git('config', 'user.email', 'vs-snippets@localhost');
+        }
+
+        const currentRemote = await this.git('remote', 'get-url', 'origin').catch(() => undefined);
+        if (this.remote && currentRemote === undefined) {
+            await this.git('remote', 'add', 'origin', this.remote);
+        } else if (this.remote && currentRemote !== this.remote) {
+            await this.git('remote', 'set-url', 'origin', this.remote);
+        }
+    }
+
+    // Returns false if the remote doesn't have the branch yet
+    private async fetchRemote(): Promise<boolean> {
+        const heads = await this.git('ls-remote', '--heads', 'origin', `refs/heads/${this.branch}`);
+        if (!heads) {
+            return false;
+        }
+        await this.git('fetch', 'origin', `+refs/heads/${this.branch}:${REMOTE_REF}`);
+        return true;
+    }
+
+    private async hasCommit(ref: string): Promise<boolean> {
+        return this.git('rev-parse', '--verify', '--quiet', `${ref}^{commit}`).then(() => true, () => false);
+    }
+
+    private async isAncestor(ancestor: string, ref: string): Promise<boolean> {
+        return this.git('merge-base', '--is-ancestor', ancestor, ref).then(() => true, () => false);
+    }
+
+    private git(...args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd: this.repoPath, timeout: GIT_TIMEOUT_MS, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+                if (error) {
+                    const message = (error as NodeJS.ErrnoException).code === 'ENOENT'
+                        ? 'Git is not installed or not on the PATH'
+                        : `git ${args[0]} failed: ${stderr.trim() || error.message}`;
+                    reject(new Error(message));
+                    return;
+                }
+                resolve(stdout.trim());
+            });
+        });
+    }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
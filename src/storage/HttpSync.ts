@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { LibraryData } from './types';
+import { LocalStorage } from './LocalStorage';
+import { RemoteSync } from './RemoteSync';
+import { decodeLibrary, encodeLibrary } from './interchange';
+import { selectSyncedData } from './selectiveSync';
+import { DEFAULT_LIBRARY } from './libraries';
+
+// Credentials are kept per server, e.g. `snippets.httpCredentials:https://dav.example.com`
+const SECRET_KEY_PREFIX = 'snippets.httpCredentials:';
+
+// Local changes are synced once the library has been quiet for this long
+const PUSH_DEBOUNCE_MS = 2000;
+
+// A slow or unreachable server shouldn't hang a sync forever
+const HTTP_TIMEOUT_MS = 60 * 1000;
+
+// A username with a password is sent as basic auth, a password alone as a bearer token
+export interface HttpCredentials {
+    username: string;
+    password: string;
+}
+
+interface HttpResponse {
+    status: number;
+    etag: string | undefined;
+    lastModified: string | undefined;
+    body: string;
+}
+
+// What the server told about the document at the last fetch or upload
+interface RemoteDocument {
+    etag: string | undefined;
+    lastModified: string | undefined;
+}
+
+// Each library is its own document in the folder `snippets.httpUrl` points to
+export function getHttpLibraryUrl(library: string): string | undefined {
+    const folder = vscode.workspace.getConfiguration('snippets').get<string>('httpUrl');
+    if (!folder) {
+        return undefined;
+    }
+    const name = library === DEFAULT_LIBRARY ? 'snippets.json' : `snippets-${library.replace(/[^\w.-]+/g, '-')}.json`;
+    return new URL(name, folder.endsWith('/') ? folder : `${folder}/`).toString();
+}
+
+export async function getHttpCredentials(secrets: vscode.SecretStorage, url: string): Promise<HttpCredentials | undefined> {
+    const stored = await secrets.get(SECRET_KEY_PREFIX + new URL(url).origin);
+    return stored ? JSON.parse(stored) : undefined;
+}
+
+export async function setHttpCredentials(secrets: vscode.SecretStorage, url: string, credentials: HttpCredentials | undefined): Promise<void> {
+    const key = SECRET_KEY_PREFIX + new URL(url).origin;
+    if (credentials) {
+        await secrets.store(key, JSON.stringify(credentials));
+    } else {
+        await secrets.delete(key);
+    }
+}
+
+/**
+ * Syncs a library with a single JSON document on an HTTP server. Any WebDAV
+ * server works, as does anything else that answers GET and PUT with ETags:
+ * the document is fetched with GET, and the merged library is written back
+ * with a PUT that carries the fetched ETag in `If-Match` (or
+ * `If-None-Match: *` for a new document), so a copy someone else uploaded in
+ * the meantime is never overwritten. Servers that send no ETag are checked
+ * with `If-Unmodified-Since` instead, and servers that send neither get a
+ * plain PUT right after the fetch.
+ *
+ * Local changes are synced shortly after they are made; `onDidChangeLocally`
+ * tells when.
+ */
+export class HttpSync implements RemoteSync {
+    readonly label = 'the sync server';
+    private document: RemoteDocument | undefined;  // Undefined while there is none
+    private fetched: { etag: string; body: string } | undefined;
+    private published: string | undefined;
+    private pushTimer: NodeJS.Timeout | undefined;
+    private subscription: vscode.Disposable;
+    private _onDidChangeLocally = new vscode.EventEmitter<void>();
+    readonly onDidChangeLocally = this._onDidChangeLocally.event;
+
+    constructor(
+        private url: string | undefined,
+        private secrets: vscode.SecretStorage,
+        store: LocalStorage
+    ) {
+        this.subscription = store.onDidWrite(data => this.schedulePush(data));
+    }
+
+    get hasRemote(): boolean {
+        return !!this.url;
+    }
+
+    private schedulePush(data: LibraryData): void {
+        // Writes that leave the server's copy as it is, like the ones the
+        // sync itself makes, need no push
+        if (!this.url || this.published === getContentKey(selectSyncedData(data))) {
+            return;
+        }
+        clearTimeout(this.pushTimer);
+        this.pushTimer = setTimeout(() => this._onDidChangeLocally.fire(), PUSH_DEBOUNCE_MS);
+    }
+
+    async fetch(): Promise<LibraryData | null> {
+        if (!this.url) {
+            return null;
+        }
+
+        // An unchanged document doesn't have to be downloaded again
+        const headers: http.OutgoingHttpHeaders = { Accept: 'application/json' };
+        if (this.fetched) {
+            headers['If-None-Match'] = this.fetched.etag;
+        }
+        const response = await this.request('GET', this.url, headers);
+        if (response.status === 404) {
+            this.document = undefined;
+            this.fetched = undefined;
+            this.published = undefined;
+            return null;
+        }
+
+        const notModified = response.status === 304 && this.fetched;
+        const body = notModified ? this.fetched!.body : this.check(response, 'GET').body;
+        this.document = notModified ? this.document! : { etag: response.etag, lastModified: response.lastModified };
+        this.fetched = this.document.etag ? { etag: this.document.etag, body } : undefined;
+        const data = decodeLibrary(JSON.parse(body), 'The library on the sync server');
+        this.published = getContentKey(data);
+        return data;
+    }
+
+    async publish(data: LibraryData): Promise<void> {
+        // Writes made by the merge itself are published right here
+        clearTimeout(this.pushTimer);
+        if (!this.url) {
+            return;
+        }
+
+        const synced = selectSyncedData(data);
+        if (this.published !== undefined && this.published === getContentKey(synced)) {
+            return;
+        }
+
+        const body = JSON.stringify(encodeLibrary(synced), null, 2);
+        const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json; charset=utf-8', ...getPreconditions(this.document) };
+        let response = await this.request('PUT', this.url, headers, body);
+        if (response.status === 409) {
+            // WebDAV servers answer 409 when the folder doesn't exist yet
+            await this.request('MKCOL', new URL('.', this.url).toString(), {});
+            response = await this.request('PUT', this.url, headers, body);
+        }
+        if (response.status === 412) {
+            throw new Error('The library on the sync server was changed while syncing. Sync again to merge the changes.');
+        }
+        this.check(response, 'PUT');
+
+        // Not every server sends the new ETag with the PUT
+        const head = response.etag ? response : await this.request('HEAD', this.url, {});
+        this.document = { etag: head.etag, lastModified: head.lastModified };
+        this.fetched = head.etag ? { etag: head.etag, body } : undefined;
+        this.published = getContentKey(synced);
+    }
+
+    dispose(): void {
+        clearTimeout(this.pushTimer);
+        this.subscription.dispose();
+        this._onDidChangeLocally.dispose();
+    }
+
+    private check(response: HttpResponse, method: string): HttpResponse {
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`The sync server refused access (HTTP ${response.status}). Check the credentials with "Set Sync Server Credentials".`);
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`${method} ${this.url} failed: HTTP ${response.status}`);
+        }
+        return response;
+    }
+
+    private async request(method: string, url: string, headers: http.OutgoingHttpHeaders, body?: string): Promise<HttpResponse> {
+        const credentials = await getHttpCredentials(this.secrets, url);
+        if (credentials?.username) {
+            headers = { ...headers, Authorization: `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}` };
+        } else if (credentials?.password) {
+            headers = { ...headers, Authorization: `Bearer ${credentials.password}` };
+        }
+        if (body !== undefined) {
+            headers = { ...headers, 'Content-Length': Buffer.byteLength(body) };
+        }
+
+        const target = new URL(url);
+        const client = target.protocol === 'https:' ? https : http;
+        return new Promise((resolve, reject) => {
+            const request = client.request(target, { method, headers, timeout: HTTP_TIMEOUT_MS }, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', chunk => chunks.push(chunk));
+                response.on('end', () => resolve({
+                    status: response.statusCode || 0,
+                    etag: typeof response.headers.etag === 'string' ? response.headers.etag : undefined,
+                    lastModified: response.headers['last-modified'],
+                    body: Buffer.concat(chunks).toString('utf8')
+                }));
+                response.on('error', reject);
+            });
+            request.on('timeout', () => request.destroy(new Error(`${method} ${url} timed out`)));
+            request.on('error', error => reject(new Error(`Could not reach the sync server: ${error.message}`)));
+            request.end(body);
+        });
+    }
+}
+
+// Makes a PUT fail if the document changed since it was fetched, as far as
+// the server lets us tell
+function getPreconditions(document: RemoteDocument | undefined): http.OutgoingHttpHeaders {
+    if (!document) {
+        return { 'If-None-Match': '*' };
+    }
+    if (document.etag) {
+        return { 'If-Match': document.etag };
+    }
+    return document.lastModified ? { 'If-Unmodified-Since': document.lastModified } : {};
+}
+
+// Compares libraries regardless of when they were encoded
+function getContentKey(data: LibraryData): string {
+    return JSON.stringify({ ...encodeLibrary(data), timestamp: undefined });
+}
@@ -1,63 +1,204 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { Folder, Snippet } from './types';
-import { log, logError } from '../logger';
-
-interface SnippetUpdate {
-    id: string;
-    code?: string;
-    notes?: string;
-    language?: string;
-    tags?: string[];
-    folderId?: string;
-}
-
-export class LocalStorage {
-    private initialized: boolean = false;
-    private storagePath: string;
+import { Folder, LibraryData, Snippet, SnippetRevision, SyncConflict, SyncState, Tombstone, TrashEntry } from './types';
+import { BaseStorage } from './BaseStorage';
+import { log, logError, showLog } from '../logger';
+import { DEFAULT_LIBRARY, DEFAULT_STORAGE_PATH, getBackupFolder } from './libraries';
+import { syncLibrary } from './merge';
+import { selectSyncedData } from './selectiveSync';
+import { assertSupportedFormat, decodeLibrary, encodeLibrary } from './interchange';
+import { DEFAULT_SNAPSHOT_RETENTION, SNAPSHOT_INTERVAL_MS, SnapshotInfo, SnapshotRetention, Snapshots } from './snapshots';
+import { assertSupportedSchema, createStoreHeader, CURRENT_SCHEMA_VERSION, migrate, MigrationData, StoreHeader } from './migrations';
+
+// How long the backup file lags behind the library, so a burst of autosaves
+// only rewrites it once
+const BACKUP_DEBOUNCE_MS = 1000;
+
+// How long the store files lag behind the cached library, so a burst of
+// autosaves only writes them once
+const SAVE_DEBOUNCE_MS = 200;
+
+// Changes on disk are picked up once they settle, e.g. after a git pull
+const EXTERNAL_CHANGE_DEBOUNCE_MS = 200;
+
+/**
+ * Keeps the library in `folders.json` and `snippets.json`. The library is
+ * cached in memory and written to disk shortly after it changes; a file
+ * watcher drops the cache when another process (or another VS Code window)
+ * changes the files.
+ */
+export class LocalStorage extends BaseStorage {
+    private initialization: Promise<void> | undefined;
     private disposables: vscode.Disposable[] = [];
-
-    constructor() {
-        this.storagePath = path.join(os.homedir(), '.vscode', 'snippets');
-        this.initializeStorage().catch(error => {
+    private cache: LibraryData | undefined;
+    private saved: LibraryData | undefined;    // The library as last written to disk
+    private unsaved: LibraryData | undefined;  // Changes not written to disk yet
+    private saveTimer: NodeJS.Timeout | undefined;
+    private saving: Promise<void> = Promise.resolve();
+    private cachedHistory: SnippetRevision[] | undefined;
+    private cachedTrash: TrashEntry[] | undefined;
+    private ownWrites = new Map<string, number | null>();  // Path to mtime, null once deleted
+    private pendingBackup: LibraryData | undefined;
+    private backupTimer: NodeJS.Timeout | undefined;
+    private backupHeld = false;
+    private externalChangeTimer: NodeJS.Timeout | undefined;
+
+    private _onDidChangeExternally = new vscode.EventEmitter<void>();
+    readonly onDidChangeExternally = this._onDidChangeExternally.event;
+
+    // Fired with the new library after every write made through this store
+    private _onDidWrite = new vscode.EventEmitter<LibraryData>();
+    readonly onDidWrite = this._onDidWrite.event;
+
+    constructor(
+        protected readonly storagePath: string = DEFAULT_STORAGE_PATH,
+        // Stores without a library name (project libraries) are never backed up
+        readonly libraryName: string | null = DEFAULT_LIBRARY
+    ) {
+        super();
+        this.waitForInitialization().catch(error => {
             logError('Failed to initialize storage', error);
+            vscode.window.showErrorMessage(`VS Snippets could not open your snippet library: ${error instanceof Error ? error.message : error}`);
         });
+
+        const watcher = vscode.workspace.createFileSystemWatcher(this.getWatchPattern());
+        watcher.onDidChange(uri => this.handleFileChange(uri));
+        watcher.onDidCreate(uri => this.handleFileChange(uri));
+        watcher.onDidDelete(uri => this.handleFileChange(uri));
+
+        // History and trash stay in the storage directory whatever the layout
+        const localWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.storagePath, '{history,trash}.json'));
+        localWatcher.onDidChange(uri => this.handleLocalFileChange(uri));
+        localWatcher.onDidCreate(uri => this.handleLocalFileChange(uri));
+        localWatcher.onDidDelete(uri => this.handleLocalFileChange(uri));
+        this.disposables.push(watcher, localWatcher, this._onDidChangeExternally, this._onDidWrite);
     }
 
     dispose() {
+        // Write pending changes and the backup before letting go
+        this.flushWrites().catch(error => logError('Failed to save the library on dispose', error));
+        this.flushBackup().catch(error => logError('Failed to write backup on dispose', error));
+        clearTimeout(this.externalChangeTimer);
+
         // Clean up any disposables
         this.disposables.forEach(d => d.dispose());
         this.disposables = [];
-        this.initialized = false;
+        this.initialization = undefined;
+        this.cache = undefined;
+    }
+
+    // The files whose changes invalidate the cache
+    protected getWatchPattern(): vscode.GlobPattern {
+        return new vscode.RelativePattern(this.storagePath, '{folders,snippets,tombstones}.json');
     }
 
-    private async initializeStorage(): Promise<void> {
+    private async handleFileChange(uri: vscode.Uri): Promise<void> {
+        if (uri.fsPath.endsWith('.tmp') || await this.isOwnWrite(uri.fsPath)) {
+            return;
+        }
+
+        this.invalidateCache();
+        clearTimeout(this.externalChangeTimer);
+        this.externalChangeTimer = setTimeout(() => {
+            log(`Snippet library in ${this.storagePath} changed on disk, reloading`);
+            this._onDidChangeExternally.fire();
+        }, EXTERNAL_CHANGE_DEBOUNCE_MS);
+    }
+
+    private async handleLocalFileChange(uri: vscode.Uri): Promise<void> {
+        if (!await this.isOwnWrite(uri.fsPath)) {
+            this.cachedHistory = undefined;
+            this.cachedTrash = undefined;
+        }
+    }
+
+    // Forgets everything read from disk, so the next read starts over
+    protected invalidateCache(): void {
+        this.cache = undefined;
+        this.saved = undefined;
+        this.cachedHistory = undefined;
+        this.cachedTrash = undefined;
+    }
+
+    // Remembers the state a write left a file in, so the watcher can tell our
+    // own writes apart from changes made by someone else
+    protected async noteOwnWrite(filePath: string): Promise<void> {
+        this.ownWrites.set(filePath, await this.getModifiedTime(filePath));
+    }
+
+    private async isOwnWrite(filePath: string): Promise<boolean> {
+        return this.ownWrites.has(filePath) && this.ownWrites.get(filePath) === await this.getModifiedTime(filePath);
+    }
+
+    private async getModifiedTime(filePath: string): Promise<number | null> {
+        try {
+            return (await fs.promises.stat(filePath)).mtimeMs;
+        } catch {
+            return null;
+        }
+    }
+
+    protected async initializeStorage(): Promise<void> {
         try {
             // Create storage directory if it doesn't exist
             await fs.promises.mkdir(this.storagePath, { recursive: true });
 
-            // Create folders.json if it doesn't exist
             const foldersPath = path.join(this.storagePath, 'folders.json');
-            if (!await this.fileExists(foldersPath)) {
-                await fs.promises.writeFile(foldersPath, '[]');
-            }
-
-            // Create snippets.json if it doesn't exist
             const snippetsPath = path.join(this.storagePath, 'snippets.json');
-            if (!await this.fileExists(snippetsPath)) {
-                await fs.promises.writeFile(snippetsPath, '[]');
-            }
+            const isNewStore = !await this.fileExists(foldersPath) && !await this.fileExists(snippetsPath);
+
+            // Create or recover folders.json and snippets.json
+            const folders = await this.loadJsonFile(foldersPath);
+            const snippets = await this.loadJsonFile(snippetsPath);
 
-            this.initialized = true;
+            await this.migrateStore({ folders, snippets }, isNewStore);
         } catch (error) {
             logError('Error initializing storage', error);
             throw error;
         }
     }
 
-    private async fileExists(filePath: string): Promise<boolean> {
+    // Brings the store up to CURRENT_SCHEMA_VERSION, refusing to touch stores
+    // written by a newer version of the extension.
+    private async migrateStore(data: MigrationData, isNewStore: boolean): Promise<void> {
+        const headerPath = path.join(this.storagePath, 'store.json');
+        let schemaVersion = isNewStore ? CURRENT_SCHEMA_VERSION : 1;
+
+        if (await this.fileExists(headerPath)) {
+            try {
+                const header: StoreHeader = JSON.parse(await fs.promises.readFile(headerPath, 'utf8'));
+                schemaVersion = header.schemaVersion;
+            } catch (error) {
+                // The data files are validated on their own, so a damaged header only
+                // means re-running migrations, which are safe to repeat.
+                logError('Error reading store header, assuming schema version 1', error);
+            }
+        }
+
+        assertSupportedSchema(schemaVersion, `The snippet library in ${this.storagePath}`);
+
+        if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+            const backupDir = path.join(this.storagePath, 'migration-backups', `v${schemaVersion}-${Date.now()}`);
+            await fs.promises.mkdir(backupDir, { recursive: true });
+            await this.writeJsonFile(path.join(backupDir, 'folders.json'), data.folders);
+            await this.writeJsonFile(path.join(backupDir, 'snippets.json'), data.snippets);
+            log(`Backed up library to ${backupDir} before migrating from schema version ${schemaVersion}`);
+
+            const migrated = migrate(data, schemaVersion, (version, description) => {
+                log(`Migrating store to schema version ${version}: ${description}`);
+            });
+
+            await this.writeJsonFile(path.join(this.storagePath, 'folders.json'), migrated.folders);
+            await this.writeJsonFile(path.join(this.storagePath, 'snippets.json'), migrated.snippets);
+        }
+
+        if (schemaVersion !== CURRENT_SCHEMA_VERSION || !await this.fileExists(headerPath)) {
+            await this.writeJsonFile(headerPath, createStoreHeader());
+        }
+    }
+
+    protected async fileExists(filePath: string): Promise<boolean> {
         try {
             await fs.promises.access(filePath);
             return true;
@@ -66,112 +207,222 @@ export class LocalStorage {
         }
     }
 
-    private async waitForInitialization(): Promise<void> {
-        if (!this.initialized) {
-            await this.initializeStorage();
+    private async readJsonArray(filePath: string): Promise<any[] | undefined> {
+        try {
+            const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+            return Array.isArray(parsed) ? parsed : undefined;
+        } catch {
+            return undefined;
         }
     }
 
-    private async getFoldersData(): Promise<Folder[]> {
-        await this.waitForInitialization();
-        const foldersPath = path.join(this.storagePath, 'folders.json');
+    // Reads a store file, recovering it from the pending temp file or the
+    // last-known-good copy when it is missing or corrupt.
+    private async loadJsonFile(filePath: string): Promise<any[]> {
+        const data = await this.readJsonArray(filePath);
+        if (data) {
+            return data;
+        }
 
-        const data = await fs.promises.readFile(foldersPath, 'utf8');
+        const fileName = path.basename(filePath);
+        const exists = await this.fileExists(filePath);
 
-        const folders = JSON.parse(data);
+        // A complete temp file means we crashed between writing and renaming it
+        for (const candidate of [`${filePath}.tmp`, `${filePath}.bak`]) {
+            const recovered = await this.readJsonArray(candidate);
+            if (recovered) {
+                if (exists) {
+                    await this.quarantineFile(filePath);
+                }
+                await this.writeJsonFile(filePath, recovered);
+                log(`Recovered ${fileName} from ${path.basename(candidate)} (${recovered.length} items)`);
+                if (exists) {
+                    this.notifyRecovery(`VS Snippets found a corrupt ${fileName} and restored it from the last known good copy.`);
+                }
+                return recovered;
+            }
+        }
+
+        if (exists) {
+            const corruptPath = await this.quarantineFile(filePath);
+            logError(`${fileName} is corrupt and no good copy was found; corrupt file kept at ${corruptPath}`);
+            this.notifyRecovery(`VS Snippets found a corrupt ${fileName} and could not recover it. The damaged file was kept at ${corruptPath}.`, true);
+        }
 
-        return folders;
+        await this.writeJsonFile(filePath, []);
+        return [];
     }
 
-    private async getSnippetsData(): Promise<Snippet[]> {
-        await this.waitForInitialization();
-        const snippetsPath = path.join(this.storagePath, 'snippets.json');
+    private async quarantineFile(filePath: string): Promise<string> {
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        await fs.promises.rename(filePath, corruptPath);
+        return corruptPath;
+    }
+
+    private notifyRecovery(message: string, isError: boolean = false): void {
+        const show = isError ? vscode.window.showErrorMessage : vscode.window.showWarningMessage;
+        show(message, 'Show Log').then(choice => {
+            if (choice === 'Show Log') {
+                showLog();
+            }
+        });
+    }
+
+    // Writes to a temp file, flushes it to disk and renames it over the target,
+    // so a crash never leaves a truncated store file behind. The previous
+    // version is kept as a last-known-good copy for recovery.
+    private async writeJsonFile(filePath: string, data: unknown): Promise<void> {
+        const tmpPath = `${filePath}.tmp`;
+        await this.writeAndSync(tmpPath, JSON.stringify(data, null, 2));
+
+        if (await this.fileExists(filePath)) {
+            const bakTmpPath = `${filePath}.bak.tmp`;
+            await fs.promises.copyFile(filePath, bakTmpPath);
+            await fs.promises.rename(bakTmpPath, `${filePath}.bak`);
+        }
 
+        await fs.promises.rename(tmpPath, filePath);
+        await this.noteOwnWrite(filePath);
+    }
 
+    protected async writeAndSync(filePath: string, content: string): Promise<void> {
+        const handle = await fs.promises.open(filePath, 'w');
         try {
-            const data = await fs.promises.readFile(snippetsPath, 'utf8');
+            await handle.writeFile(content, 'utf8');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+    }
+
+    protected async waitForInitialization(): Promise<void> {
+        if (!this.initialization) {
+            // Share one initialization so recovery never runs twice concurrently
+            this.initialization = this.initializeStorage().catch(error => {
+                this.initialization = undefined;
+                throw error;
+            });
+        }
+        await this.initialization;
+    }
+
+    protected async getFoldersData(): Promise<Folder[]> {
+        return (await this.readLibrary()).folders;
+    }
+
+    protected async getSnippetsData(): Promise<Snippet[]> {
+        return (await this.readLibrary()).snippets;
+    }
 
+    private async loadFolders(): Promise<Folder[]> {
+        await this.waitForInitialization();
+        const foldersPath = path.join(this.storagePath, 'folders.json');
 
-            const parsedSnippets = JSON.parse(data);
+        return this.loadJsonFile(foldersPath);
+    }
 
-            // Ensure all snippets have the required fields with proper defaults
-            const sanitizedSnippets = parsedSnippets.map((snippet: any) => ({
-                id: snippet.id,
-                name: snippet.name,
-                folderId: snippet.folderId,
-                code: snippet.code || '',
-                language: snippet.language || 'plaintext',
-                notes: snippet.notes || '',
-                tags: Array.isArray(snippet.tags) ? snippet.tags : [],
-                lastModified: snippet.lastModified || Date.now(),
-                pinned: snippet.pinned ?? false
-            }));
+    private async loadSnippets(): Promise<Snippet[]> {
+        await this.waitForInitialization();
+        const snippetsPath = path.join(this.storagePath, 'snippets.json');
 
 
+        try {
+            const parsedSnippets = await this.loadJsonFile(snippetsPath);
 
-            return sanitizedSnippets;
+            return parsedSnippets.map(sanitizeSnippet);
         } catch (error) {
             logError('Error reading snippets', error);
             throw error;
         }
     }
 
+    // Persists the library, skipping files whose content didn't change;
+    // backends with a different on-disk layout override this
+    protected async saveLibraryData(data: LibraryData): Promise<void> {
+        if (!this.saved || !isSameJson(this.saved.folders, data.folders)) {
+            await this.saveFoldersData(data.folders);
+        }
+        if (!this.saved || !isSameJson(this.saved.snippets, data.snippets)) {
+            await this.saveSnippetsData(data.snippets);
+        }
+    }
+
     private async saveFoldersData(folders: Folder[]): Promise<void> {
         await this.waitForInitialization();
 
         const foldersPath = path.join(this.storagePath, 'folders.json');
-        await fs.promises.writeFile(foldersPath, JSON.stringify(folders, null, 2));
-
-
-        // Verify the file was written correctly
-        try {
-            const savedContent = await fs.promises.readFile(foldersPath, 'utf8');
-            const savedFolders = JSON.parse(savedContent);
-
-        } catch (error) {
-            logError('Error verifying folders file', error);
-        }
+        await this.writeJsonFile(foldersPath, folders);
     }
 
     private async saveSnippetsData(snippets: Snippet[]): Promise<void> {
         await this.waitForInitialization();
 
 
-        // Ensure all snippets have the required fields with proper defaults
-        const sanitizedSnippets = snippets.map(snippet => ({
-            id: snippet.id,
-            name: snippet.name,
-            folderId: snippet.folderId,
-            code: snippet.code || '',
-            language: snippet.language || 'plaintext',
-            notes: snippet.notes || '',
-            tags: Array.isArray(snippet.tags) ? snippet.tags : [],
-            lastModified: snippet.lastModified || Date.now(),
-            pinned: snippet.pinned ?? false
-        }));
+        const sanitizedSnippets = snippets.map(sanitizeSnippet);
 
         const snippetsPath = path.join(this.storagePath, 'snippets.json');
-        const snippetsJson = JSON.stringify(sanitizedSnippets, null, 2);
+        await this.writeJsonFile(snippetsPath, sanitizedSnippets);
+    }
 
+    // Revision history lives next to the store files and is never backed up or synced
+    protected async readHistory(): Promise<SnippetRevision[]> {
+        await this.waitForInitialization();
+        if (!this.cachedHistory) {
+            this.cachedHistory = await this.readJsonArray(path.join(this.storagePath, 'history.json')) || [];
+        }
+        return this.cachedHistory;
+    }
 
+    protected async writeHistory(history: SnippetRevision[]): Promise<void> {
+        await this.waitForInitialization();
+        this.cachedHistory = undefined;
+        await this.writeJsonFile(path.join(this.storagePath, 'history.json'), history);
+        this.cachedHistory = history;
+    }
 
-        await fs.promises.writeFile(snippetsPath, snippetsJson);
+    protected get tombstonesPath(): string {
+        return path.join(this.storagePath, 'tombstones.json');
+    }
 
+    protected async readTombstones(): Promise<Tombstone[]> {
+        await this.waitForInitialization();
+        return await this.readJsonArray(this.tombstonesPath) || [];
+    }
 
-        // Verify the file was written correctly
-        try {
-            const savedContent = await fs.promises.readFile(snippetsPath, 'utf8');
-            const savedSnippets = JSON.parse(savedContent);
+    protected async readTrash(): Promise<TrashEntry[]> {
+        await this.waitForInitialization();
+        if (!this.cachedTrash) {
+            this.cachedTrash = await this.readJsonArray(path.join(this.storagePath, 'trash.json')) || [];
+        }
+        return this.cachedTrash;
+    }
 
-        } catch (error) {
-            logError('Error verifying snippets file', error);
-            throw error;
+    protected async writeTrash(trash: TrashEntry[]): Promise<void> {
+        await this.waitForInitialization();
+        this.cachedTrash = undefined;
+        await this.writeJsonFile(path.join(this.storagePath, 'trash.json'), trash);
+        this.cachedTrash = trash;
+    }
+
+    // The sync base belongs to this device, so it is never backed up either
+    protected async readSyncState(): Promise<SyncState> {
+        await this.waitForInitialization();
+        try {
+            const parsed = JSON.parse(await fs.promises.readFile(path.join(this.storagePath, 'sync-state.json'), 'utf8'));
+            return { base: parsed.base || null, conflicts: Array.isArray(parsed.conflicts) ? parsed.conflicts : [] };
+        } catch {
+            return { base: null, conflicts: [] };
         }
     }
 
+    protected async writeSyncState(state: SyncState): Promise<void> {
+        await this.waitForInitialization();
+        await this.writeJsonFile(path.join(this.storagePath, 'sync-state.json'), state);
+    }
+
     // Method to get data from backup file without syncing
-    async getBackupData(): Promise<{ folders: Folder[]; snippets: Snippet[]; timestamp: string } | null> {
-        const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
+    async getBackupData(): Promise<{ folders: Folder[]; snippets: Snippet[]; tombstones: Tombstone[]; localOnlyFolders?: string[]; timestamp: string } | null> {
+        const backupFolder = this.libraryName !== null ? getBackupFolder(this.libraryName) : undefined;
         if (!backupFolder) {
             throw new Error('Backup folder not configured');
         }
@@ -182,622 +433,271 @@ export class LocalStorage {
                 return null;
             }
 
-            const backupContent = await fs.promises.readFile(backupPath, 'utf8');
-            const backupData = JSON.parse(backupContent);
-
-            if (!backupData.data || !Array.isArray(backupData.data)) {
-                throw new Error('Invalid backup file format');
-            }
-
-            // Separate into folders and snippets
-            const folders: Folder[] = [];
-            const snippets: Snippet[] = [];
-            backupData.data.forEach((item: any) => {
-                if (item.type === 'folder') {
-                    const { type, ...folderData } = item;
-                    folders.push(folderData);
-                } else {
-                    snippets.push(item);
-                }
-            });
-
-            return {
-                folders,
-                snippets,
-                timestamp: backupData.timestamp
-            };
+            const backupContent = JSON.parse(await fs.promises.readFile(backupPath, 'utf8'));
+            const { folders, snippets, tombstones, localOnlyFolders } = decodeLibrary(backupContent, 'The backup file');
+            return { folders, snippets, tombstones: tombstones || [], localOnlyFolders, timestamp: backupContent.timestamp };
         } catch (error) {
             logError('Error reading backup', error);
             throw error;
         }
     }
 
-    // Method to sync from backup file
-    async syncFromBackup(): Promise<void> {
+    // Method to sync from backup file, merging both sides against the last sync
+    async syncFromBackup(): Promise<SyncConflict[]> {
         const backupData = await this.getBackupData();
         if (!backupData) {
             throw new Error('No backup data found');
         }
-
-        // Get current data
-        const currentData = await this.getAllData();
-        const currentItems = new Map();
-        [...currentData.folders, ...currentData.snippets].forEach(item => {
-            currentItems.set(item.id, item);
-        });
-
-        // Merge with backup data, keeping newer versions
-        const mergedItems = new Map(currentItems);
-        [...backupData.folders, ...backupData.snippets].forEach(item => {
-            const current = currentItems.get(item.id);
-            if (!current || item.lastModified > current.lastModified) {
-                mergedItems.set(item.id, item);
-            }
-        });
-
-        // Separate into folders and snippets
-        const folders: Folder[] = [];
-        const snippets: Snippet[] = [];
-        mergedItems.forEach(item => {
-            if ('type' in item) {
-                const { type, ...folderData } = item;
-                folders.push(folderData as Folder);
-            } else {
-                snippets.push(item as Snippet);
-            }
-        });
-
-        // Save merged data
-        await this.syncData({ folders, snippets });
+        return syncLibrary(this, backupData);
     }
 
-    async getFolders(): Promise<Folder[]> {
-        return this.getFoldersData();
-    }
-
-    async getSubFolders(parentId: string): Promise<Folder[]> {
-        const folders = await this.getFoldersData();
-        return folders.filter(f => f.parentId === parentId);
-    }
-
-    async getRootFolders(): Promise<Folder[]> {
-        const folders = await this.getFoldersData();
-        return folders.filter(f => f.parentId === null);
+    // Callers get their own copy of the cached library
+    protected async readLibrary(): Promise<LibraryData> {
+        if (!this.cache) {
+            // Changes made just before the files changed on disk still win,
+            // as they would have if they had been written right away
+            await this.flushWrites();
+            this.cache = await this.loadLibrary();
+            this.saved = this.cache;
+        }
+        return clone(this.cache);
     }
 
-    async getSnippets(): Promise<Snippet[]> {
-        return this.getSnippetsData();
+    // Reads the library from disk
+    protected async loadLibrary(): Promise<LibraryData> {
+        return {
+            folders: await this.loadFolders(),
+            snippets: await this.loadSnippets(),
+            tombstones: await this.readTombstones()
+        };
     }
 
-    async getAllSnippets(): Promise<Snippet[]> {
-        return this.getSnippetsData();
+    protected async writeLibrary(data: LibraryData): Promise<void> {
+        // A transaction that changed nothing (e.g. a sync with nothing new)
+        // mustn't look like a write, or syncs and backups would feed each other
+        if (this.cache && isSameJson({ ...this.cache, tombstones: this.cache.tombstones || [] }, { ...data, tombstones: data.tombstones || [] })) {
+            return;
+        }
+        this.cache = clone(data);
+        this.unsaved = this.cache;
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.flushWrites().catch(error => {
+                logError('Failed to save the snippet library', error);
+                vscode.window.showErrorMessage(`VS Snippets could not save your snippet library: ${error instanceof Error ? error.message : error}`);
+            });
+        }, SAVE_DEBOUNCE_MS);
+        this.scheduleBackup(this.cache);
+        this._onDidWrite.fire(clone(this.cache));
     }
 
-    async addFolder(name: string, parentId: string | null = null): Promise<void> {
-        const folders = await this.getFoldersData();
-
-        // Get max order of siblings
-        const siblings = folders.filter(f => f.parentId === parentId);
-        const maxOrder = Math.max(...siblings.map(f => f.order || 0), -1);
-
-        const newFolder: Folder = {
-            id: Date.now().toString(),
-            name,
-            parentId,
-            type: 'primary',
-            lastModified: Date.now(),
-            order: maxOrder + 1
-        };
-
-        folders.push(newFolder);
-        await this.saveFoldersData(folders);
-        await this.updateBackupFile({ folders, snippets: await this.getSnippetsData() });
+    // Writes changes still waiting in memory right away
+    async flushWrites(): Promise<void> {
+        clearTimeout(this.saveTimer);
+        const run = this.saving.then(() => this.saveUnsaved());
+        this.saving = run.catch(() => undefined);
+        return run;
     }
 
-    async addSnippet(snippet: Omit<Snippet, 'id' | 'lastModified'>): Promise<Snippet> {
-        await this.waitForInitialization();
-
-
-        // Create a properly structured new snippet
-        const newSnippet: Snippet = {
-            id: Date.now().toString(),
-            name: snippet.name,
-            folderId: snippet.folderId,
-            code: snippet.code || '',
-            language: snippet.language || 'plaintext',
-            notes: snippet.notes || '',
-            tags: snippet.tags || [],
-            lastModified: Date.now()
-        };
-
-
-
-        const snippets = await this.getSnippets();
-        snippets.push(newSnippet);
-
-        // Save the updated snippets array
-        await this.saveSnippetsData(snippets);
-
-        // Update the backup file
-        await this.updateBackupFile({
-            folders: await this.getFoldersData(),
-            snippets
-        });
-
-
-        return newSnippet;
+    private async saveUnsaved(): Promise<void> {
+        const data = this.unsaved;
+        if (!data) {
+            return;
+        }
+        this.unsaved = undefined;
+        try {
+            await this.saveLibraryData(data);
+            if (!this.saved || !isSameJson(this.saved.tombstones || [], data.tombstones || [])) {
+                await this.writeJsonFile(this.tombstonesPath, data.tombstones || []);
+            }
+            this.saved = data;
+        } catch (error) {
+            // Part of the library may have been written; write all of it next time
+            this.saved = undefined;
+            this.unsaved = this.unsaved || data;
+            throw error;
+        }
     }
 
-    async deleteFolder(id: string): Promise<void> {
-        await this.waitForInitialization();
-        const folders = await this.getFolders();
-        const snippets = await this.getSnippets();
-
-        // Remove the folder
-        const updatedFolders = folders.filter(folder => folder.id !== id);
-        // Remove all snippets in the folder
-        const updatedSnippets = snippets.filter(snippet => snippet.folderId !== id);
-
-        await this.saveFoldersData(updatedFolders);
-        await this.saveSnippetsData(updatedSnippets);
-        await this.updateBackupFile({ folders: updatedFolders, snippets: updatedSnippets });
+    private scheduleBackup(data: LibraryData): void {
+        this.pendingBackup = data;
+        clearTimeout(this.backupTimer);
+        this.backupTimer = setTimeout(() => {
+            this.flushBackup().catch(error => logError('Failed to update backup file', error));
+        }, BACKUP_DEBOUNCE_MS);
     }
 
-    async deleteSnippet(id: string): Promise<void> {
-        await this.waitForInitialization();
-        const snippets = await this.getSnippets();
-        const updatedSnippets = snippets.filter(snippet => snippet.id !== id);
-        await this.saveSnippetsData(updatedSnippets);
-        await this.updateBackupFile({ folders: await this.getFoldersData(), snippets: updatedSnippets });
+    // Stops writing the backup file, so changes waiting in it (e.g. from
+    // another device) aren't overwritten before they were reviewed
+    holdBackup(): void {
+        this.backupHeld = true;
+        clearTimeout(this.backupTimer);
     }
 
-    async updateSnippet(update: SnippetUpdate): Promise<void> {
-
-        const snippets = await this.getSnippetsData();
-        const snippetIndex = snippets.findIndex(s => s.id === update.id);
-
-        if (snippetIndex !== -1) {
-            // Create a new snippet object with the updates
-            const currentSnippet = snippets[snippetIndex];
-            const updatedSnippet = {
-                ...currentSnippet,
-                code: update.code !== undefined ? update.code : currentSnippet.code,
-                notes: update.notes !== undefined ? update.notes : currentSnippet.notes,
-                language: update.language !== undefined ? update.language : currentSnippet.language,
-                tags: update.tags !== undefined ? update.tags : currentSnippet.tags,
-                folderId: update.folderId !== undefined ? update.folderId : currentSnippet.folderId,
-                lastModified: Date.now()
-            };
-
-
-
-
-            // Replace the old snippet with the updated one
-            snippets[snippetIndex] = updatedSnippet;
-
-            // Save the updated snippets array
-            await this.saveSnippetsData(snippets);
-
-            // Update the backup file
-            await this.updateBackupFile({
-                folders: await this.getFoldersData(),
-                snippets
-            });
-
-
-        } else {
-            logError('Snippet not found', update.id);
-            throw new Error('Snippet not found');
+    releaseBackup(): void {
+        this.backupHeld = false;
+        if (this.pendingBackup) {
+            this.scheduleBackup(this.pendingBackup);
         }
     }
 
-    async getSnippet(snippetId: string): Promise<Snippet | undefined> {
-        const snippets = await this.getSnippetsData();
-        return snippets.find(s => s.id === snippetId);
+    // Writes the pending backup right away
+    async flushBackup(): Promise<void> {
+        clearTimeout(this.backupTimer);
+        await this.takeRoutineSnapshot();
+        if (this.backupHeld) {
+            return;
+        }
+        const data = this.pendingBackup;
+        this.pendingBackup = undefined;
+        if (data) {
+            await this.updateBackupFile(data);
+        }
     }
 
-    async getAllData(): Promise<{ folders: Folder[]; snippets: Snippet[] }> {
-
-        const data = {
-            folders: await this.getFoldersData(),
-            snippets: await this.getSnippetsData()
-        };
-        return data;
+    // Snapshots stay on this device, so a bad change that reaches the backup
+    // folder can't take them with it. Project libraries don't keep any.
+    private get snapshots(): Snapshots {
+        return new Snapshots(path.join(this.storagePath, 'snapshots'));
     }
 
-    private async updateBackupFile(data: { folders: Folder[]; snippets: Snippet[] }): Promise<void> {
-        const backupFolder = vscode.workspace.getConfiguration('snippets').get<string>('backupFolder');
-        if (!backupFolder) {
+    async takeSnapshot(reason: string): Promise<void> {
+        if (this.libraryName === null) {
             return;
         }
-
         try {
-            // Create backup folder if it doesn't exist
-            await fs.promises.mkdir(backupFolder, { recursive: true });
-            const backupPath = path.join(backupFolder, 'snippets.json');
-
-
-            // Convert to backup format - ensure it matches the export format exactly
-            const backupData = {
-                version: "1.0",
-                timestamp: new Date().toISOString(),
-                data: [
-                    ...data.folders.map(folder => ({
-                        id: folder.id,
-                        name: folder.name,
-                        parentId: folder.parentId,
-                        type: 'folder',
-                        lastModified: folder.lastModified || Date.now()
-                    })),
-                    ...data.snippets.map(snippet => ({
-                        id: snippet.id,
-                        name: snippet.name,
-                        folderId: snippet.folderId,
-                        code: snippet.code || '',
-                        language: snippet.language || 'plaintext',
-                        notes: snippet.notes || '',
-                        tags: snippet.tags || [],
-                        lastModified: snippet.lastModified || Date.now(),
-                        pinned: snippet.pinned ?? false
-                    }))
-                ]
-            };
-
-            // Write to backup file
-            await fs.promises.writeFile(backupPath, JSON.stringify(backupData, null, 2));
-
-
-            // Verify the backup was written correctly
-            try {
-                const verifyContent = await fs.promises.readFile(backupPath, 'utf8');
-                const verifyData = JSON.parse(verifyContent);
-
-            } catch (verifyError) {
-                logError('Error verifying backup file', verifyError);
+            const data = await this.readLibrary();
+            if (data.folders.length > 0 || data.snippets.length > 0) {
+                await this.snapshots.take(data, reason, getSnapshotRetention());
             }
         } catch (error) {
-            logError('Failed to update backup file', error);
-            // Show error to user since this is important for sync
-            vscode.window.showErrorMessage(`Failed to update backup file: ${error}`);
+            logError('Failed to take a snapshot of the library', error);
         }
     }
 
-    async syncData(data: { folders: Folder[]; snippets: Snippet[] }): Promise<void> {
-
-        await this.waitForInitialization();
-        await this.saveFoldersData(data.folders);
-        await this.saveSnippetsData(data.snippets);
-
-        // Update backup file after successful save
-        await this.updateBackupFile(data);
-
-
+    async getSnapshots(): Promise<SnapshotInfo[]> {
+        return this.libraryName === null ? [] : this.snapshots.list();
     }
 
-    async renameFolder(folderId: string, newName: string): Promise<void> {
-        const folders = await this.getFoldersData();
-        const folderIndex = folders.findIndex(f => f.id === folderId);
-
-        if (folderIndex !== -1) {
-            folders[folderIndex] = {
-                ...folders[folderIndex],
-                name: newName,
-                lastModified: Date.now()
-            };
-            await this.saveFoldersData(folders);
-            await this.updateBackupFile({ folders, snippets: await this.getSnippetsData() });
-        }
+    async readSnapshot(id: string): Promise<LibraryData> {
+        return this.snapshots.read(id);
     }
 
-    async renameSnippet(snippetId: string, newName: string): Promise<void> {
-        const snippets = await this.getSnippetsData();
-        const snippetIndex = snippets.findIndex(s => s.id === snippetId);
+    // Besides the history, snapshots and the last-known-good copies of the
+    // store files hold earlier versions of the snippets
+    async discardEarlierCopies(snippetIds: string[]): Promise<void> {
+        await super.discardEarlierCopies(snippetIds);
+        await this.flushWrites();
 
-        if (snippetIndex !== -1) {
-            snippets[snippetIndex] = {
-                ...snippets[snippetIndex],
-                name: newName,
-                lastModified: Date.now()
-            };
-            await this.saveSnippetsData(snippets);
-            await this.updateBackupFile({ folders: await this.getFoldersData(), snippets });
-        }
-    }
+        const ids = new Set(snippetIds);
+        const current = new Map((await this.readLibrary()).snippets.filter(s => ids.has(s.id)).map(s => [s.id, s]));
+        await this.snapshots.rewrite(data => ({
+            ...data,
+            snippets: data.snippets.map(snippet => current.get(snippet.id) || snippet)
+        }));
 
-    async exportData(): Promise<string> {
-        try {
-            const data = await this.getAllData();
-            const exportData = {
-                version: "1.0",
-                timestamp: new Date().toISOString(),
-                data: {
-                    folders: data.folders.map(folder => ({
-                        id: folder.id,
-                        name: folder.name,
-                        type: folder.type,
-                        parentId: folder.parentId,
-                        lastModified: folder.lastModified || Date.now()
-                    })),
-                    snippets: data.snippets.map(snippet => ({
-                        id: snippet.id,
-                        name: snippet.name,
-                        code: snippet.code,
-                        notes: snippet.notes || "",
-                        folderId: snippet.folderId,
-                        language: snippet.language || "plaintext",
-                        lastModified: snippet.lastModified || Date.now()
-                    }))
+        for (const name of await fs.promises.readdir(this.storagePath)) {
+            if (name.endsWith('.bak')) {
+                const filePath = path.join(this.storagePath, name.slice(0, -'.bak'.length));
+                if (await this.fileExists(filePath)) {
+                    await fs.promises.copyFile(filePath, path.join(this.storagePath, name));
+                } else {
+                    await fs.promises.unlink(path.join(this.storagePath, name));
                 }
-            };
-
-            return JSON.stringify(exportData, null, 2);
-        } catch (error: any) {
-            logError('Error exporting data', error);
-            throw new Error(`Failed to export data: ${error.message}`);
+            }
         }
     }
 
-    async importData(jsonData: string): Promise<void> {
-        try {
-            const importedData = JSON.parse(jsonData);
-
-            // Validate the imported data structure
-            if (!importedData.version || !importedData.data) {
-                throw new Error('Invalid import file format');
-            }
-
-            // Version compatibility check
-            if (importedData.version !== "1.0") {
-                log(`Warning: Importing data from version ${importedData.version}`);
-            }
-
-            const { folders, snippets } = importedData.data;
-
-            // Validate folders
-            if (!Array.isArray(folders)) {
-                throw new Error('Invalid folders data');
-            }
-
-            // Validate snippets
-            if (!Array.isArray(snippets)) {
-                throw new Error('Invalid snippets data');
-            }
-
-            // Validate each folder has required fields
-            folders.forEach((folder: any, index: number) => {
-                if (!folder.id || typeof folder.id !== 'string' ||
-                    !folder.name || typeof folder.name !== 'string' ||
-                    !folder.type || (folder.type !== 'primary' && folder.type !== 'secondary') ||
-                    (folder.parentId !== null && typeof folder.parentId !== 'string')) {
-                    throw new Error(`Invalid folder data at index ${index}`);
-                }
-                // Ensure lastModified exists
-                if (!folder.lastModified) {
-                    folder.lastModified = Date.now();
-                }
-            });
-
-            // Validate each snippet has required fields
-            snippets.forEach((snippet: any, index: number) => {
-                if (!snippet.id || typeof snippet.id !== 'string' ||
-                    !snippet.name || typeof snippet.name !== 'string' ||
-                    typeof snippet.code !== 'string' || // code can be empty but must be string
-                    !snippet.folderId || typeof snippet.folderId !== 'string') {
-                    throw new Error(`Invalid snippet data at index ${index}`);
-                }
-                // Ensure lastModified exists
-                if (!snippet.lastModified) {
-                    snippet.lastModified = Date.now();
-                }
-            });
-
-            // Create a map of existing folders and snippets
-            const currentData = await this.getAllData();
-            const existingFolders = new Map(currentData.folders.map(f => [f.id, f]));
-            const existingSnippets = new Map(currentData.snippets.map(s => [s.id, s]));
-
-            // Merge folders
-            const mergedFolders = new Map<string, Folder>();
-
-            // Add existing folders
-            existingFolders.forEach((folder, id) => {
-                mergedFolders.set(id, {
-                    ...folder,
-                    lastModified: folder.lastModified || Date.now()
-                });
-            });
-
-            // Add/update imported folders
-            folders.forEach((folder: Folder) => {
-                const existingFolder = mergedFolders.get(folder.id);
-                if (!existingFolder || (folder.lastModified > existingFolder.lastModified)) {
-                    mergedFolders.set(folder.id, {
-                        ...folder,
-                        lastModified: folder.lastModified
-                    });
-                }
-            });
-
-            // Merge snippets
-            const mergedSnippets = new Map<string, Snippet>();
-
-            // Add existing snippets
-            existingSnippets.forEach((snippet, id) => {
-                mergedSnippets.set(id, {
-                    ...snippet,
-                    lastModified: snippet.lastModified || Date.now()
-                });
-            });
-
-            // Add/update imported snippets
-            snippets.forEach((snippet: Snippet) => {
-                const existingSnippet = mergedSnippets.get(snippet.id);
-                if (!existingSnippet || (snippet.lastModified > existingSnippet.lastModified)) {
-                    mergedSnippets.set(snippet.id, {
-                        ...snippet,
-                        lastModified: snippet.lastModified
-                    });
-                }
-            });
-
-            // Convert maps back to arrays
-            const finalData = {
-                folders: Array.from(mergedFolders.values()),
-                snippets: Array.from(mergedSnippets.values())
-            };
-
-            // Save the merged data
-            await this.syncData(finalData);
-
-
-        } catch (error: any) {
-            logError('Error importing data', error);
-            throw new Error(`Failed to import data: ${error.message}`);
+    private async takeRoutineSnapshot(): Promise<void> {
+        if (this.libraryName === null) {
+            return;
+        }
+        const latest = await this.snapshots.getLatestTimestamp();
+        if (!latest || Date.now() - latest >= SNAPSHOT_INTERVAL_MS) {
+            await this.takeSnapshot('Hourly snapshot');
         }
     }
 
-    async updateFolderParent(folderId: string, newParentId: string | null): Promise<void> {
-        await this.waitForInitialization();
-        const folders = await this.getFoldersData();
-        const updatedFolders = folders.map(folder => {
-            if (folder.id === folderId) {
-                return { ...folder, parentId: newParentId, lastModified: Date.now() };
-            }
-            return folder;
-        });
-        await this.saveFoldersData(updatedFolders);
-        await this.updateBackupFile({ folders: updatedFolders, snippets: await this.getSnippetsData() });
-    }
+    private async updateBackupFile(data: LibraryData): Promise<void> {
+        const backupFolder = this.libraryName !== null ? getBackupFolder(this.libraryName) : undefined;
+        if (!backupFolder) {
+            return;
+        }
 
-    async moveFolder(sourcePath: string, targetPath: string): Promise<void> {
         try {
-            // Get current data
-            const data = await this.getAllData();
-
-            // Find the folder to move
-            const folderToMove = data.folders.find(f => f.id === sourcePath);
-            if (!folderToMove) {
-                throw new Error('Source folder not found');
-            }
+            // Create backup folder if it doesn't exist
+            await fs.promises.mkdir(backupFolder, { recursive: true });
+            const backupPath = path.join(backupFolder, 'snippets.json');
 
-            // Update the folder's parent ID
-            if (targetPath === '') {
-                // Moving to root
-                folderToMove.parentId = null;
-            } else {
-                // Moving to another folder
-                folderToMove.parentId = targetPath;
+            // Don't overwrite a backup written by a newer version of the extension
+            const newerVersion = await this.checkBackupVersion(backupPath);
+            if (newerVersion) {
+                logError(`Skipping backup: ${newerVersion}`);
+                return;
             }
 
-            // Update last modified timestamp
-            folderToMove.lastModified = Date.now();
+            const backupData = encodeLibrary(selectSyncedData(data));
 
-            // Save the updated data
-            await this.syncData({
-                folders: data.folders,
-                snippets: data.snippets
-            });
+            // Write to a temp file first so a crash never truncates the shared backup
+            const tmpPath = `${backupPath}.tmp`;
+            await this.writeAndSync(tmpPath, JSON.stringify(backupData, null, 2));
+            await fs.promises.rename(tmpPath, backupPath);
         } catch (error) {
-            throw new Error(`Failed to move folder: ${error}`);
+            logError('Failed to update backup file', error);
+            // Show error to user since this is important for sync
+            vscode.window.showErrorMessage(`Failed to update backup file: ${error}`);
         }
     }
 
-    async updateFolderOrder(folderId: string, direction: 'up' | 'down'): Promise<void> {
+    // Describes why the existing backup can't be overwritten, if it can't
+    private async checkBackupVersion(backupPath: string): Promise<string | undefined> {
+        let content: any;
         try {
-            const folders = await this.getFoldersData();
-
-            // Get current folder
-            const currentFolder = folders.find(f => f.id === folderId);
-            if (!currentFolder) {
-                throw new Error('Folder not found');
-            }
-
-            // Get siblings (folders with same parent)
-            const siblings = folders
-                .filter(f => f.parentId === currentFolder.parentId)
-                .sort((a, b) => (a.order || 0) - (b.order || 0));
-
-            const currentIndex = siblings.findIndex(f => f.id === folderId);
-            if (currentIndex === -1) {
-                throw new Error('Current folder not found in siblings');
-            }
-
-            // Calculate target index
-            const targetIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
-            if (targetIndex < 0 || targetIndex >= siblings.length) {
-                return; // Can't move further
-            }
-
-            // Get target folder
-            const targetFolder = siblings[targetIndex];
-
-            // If folders don't have order yet, initialize them
-            if (currentFolder.order === undefined) {
-                // Initialize orders for all siblings if they don't exist
-                siblings.forEach((folder, index) => {
-                    folder.order = index * 100; // Use multiples of 100 to leave room for insertions
-                });
-            }
-
-            // Swap orders
-            const tempOrder = currentFolder.order;
-            currentFolder.order = targetFolder.order;
-            targetFolder.order = tempOrder;
-
-            // Update the folders in the main array
-            folders.forEach(folder => {
-                if (folder.id === currentFolder.id) {
-                    folder.order = currentFolder.order;
-                } else if (folder.id === targetFolder.id) {
-                    folder.order = targetFolder.order;
-                }
-            });
-
-            // Save the updated folders
-            await this.saveFoldersData(folders);
-
-            // Update backup if needed
-            await this.updateBackupFile({
-                folders,
-                snippets: await this.getSnippetsData()
-            });
+            content = JSON.parse(await fs.promises.readFile(backupPath, 'utf8'));
+        } catch {
+            return undefined;
+        }
+        try {
+            assertSupportedFormat(content, backupPath);
+            return undefined;
         } catch (error) {
-            logError('Error updating folder order', error);
-            throw new Error(`Failed to update folder order: ${error}`);
+            return error instanceof Error ? error.message : String(error);
         }
     }
+}
 
-    async duplicateSnippet(id: string): Promise<Snippet> {
-        const snippets = await this.getSnippetsData();
-        const source = snippets.find(s => s.id === id);
-        if (!source) {
-            throw new Error('Snippet not found');
-        }
-        const copy: Snippet = {
-            ...source,
-            id: Date.now().toString(),
-            name: `${source.name} (copy)`,
-            lastModified: Date.now(),
-            pinned: false
-        };
-        snippets.push(copy);
-        await this.saveSnippetsData(snippets);
-        await this.updateBackupFile({ folders: await this.getFoldersData(), snippets });
-        return copy;
-    }
-
-    async togglePinSnippet(id: string): Promise<void> {
-        const snippets = await this.getSnippetsData();
-        const index = snippets.findIndex(s => s.id === id);
-        if (index === -1) {
-            throw new Error('Snippet not found');
-        }
-        snippets[index] = {
-            ...snippets[index],
-            pinned: !snippets[index].pinned,
-            lastModified: Date.now()
-        };
-        await this.saveSnippetsData(snippets);
-        await this.updateBackupFile({ folders: await this.getFoldersData(), snippets });
-    }
-} 
\ No newline at end of file
+function getSnapshotRetention(): SnapshotRetention {
+    const configured = vscode.workspace.getConfiguration('snippets').get<Partial<SnapshotRetention>>('snapshotRetention') || {};
+    const count = (value: unknown, fallback: number) => typeof value === 'number' && value >= 0 ? Math.floor(value) : fallback;
+    return {
+        hourly: count(configured.hourly, DEFAULT_SNAPSHOT_RETENTION.hourly),
+        daily: count(configured.daily, DEFAULT_SNAPSHOT_RETENTION.daily),
+        weekly: count(configured.weekly, DEFAULT_SNAPSHOT_RETENTION.weekly)
+    };
+}
+
+// Ensures a snippet has the required fields with proper defaults
+function sanitizeSnippet(snippet: any): Snippet {
+    return {
+        id: snippet.id,
+        name: snippet.name,
+        folderId: snippet.folderId,
+        code: snippet.code || '',
+        language: snippet.language || 'plaintext',
+        notes: snippet.notes || '',
+        tags: Array.isArray(snippet.tags) ? snippet.tags : [],
+        lastModified: snippet.lastModified || Date.now(),
+        pinned: snippet.pinned ?? false,
+        encrypted: snippet.encrypted || undefined,
+        prefix: Array.isArray(snippet.prefix) ? snippet.prefix : undefined,
+        version: snippet.version || undefined
+    };
+}
+
+function clone(data: LibraryData): LibraryData {
+    return JSON.parse(JSON.stringify(data));
+}
+
+function isSameJson(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
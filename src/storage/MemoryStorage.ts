@@ -0,0 +1,28 @@
+import { LibraryData } from './types';
+import { BaseStorage } from './BaseStorage';
+
+/**
+ * Keeps the library in memory only. Useful for tests and as a scratch store,
+ * e.g. to stage imported data before merging it into a real library.
+ */
+export class MemoryStorage extends BaseStorage {
+    private data: LibraryData;
+
+    constructor(initialData: LibraryData = { folders: [], snippets: [] }) {
+        super();
+        this.data = clone(initialData);
+    }
+
+    protected async readLibrary(): Promise<LibraryData> {
+        return clone(this.data);
+    }
+
+    protected async writeLibrary(data: LibraryData): Promise<void> {
+        this.data = clone(data);
+    }
+}
+
+// Callers get their own copy, just like with the file-backed stores
+function clone(data: LibraryData): LibraryData {
+    return JSON.parse(JSON.stringify(data));
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnippetStore } from './SnippetStore';
+import { LocalStorage } from './LocalStorage';
+import { FileTreeStorage } from './FileTreeStorage';
+import { LibraryData, TrashEntry } from './types';
+
+// Scope of the user's own library, as opposed to a workspace folder's project library
+export const GLOBAL_SCOPE = 'global';
+
+// Where project snippets live inside each workspace folder
+export const PROJECT_LIBRARY_DIR = path.join('.vscode', 'vs-snippets');
+
+export interface ProjectLibrary {
+    scope: string;  // The workspace folder URI
+    name: string;
+    path: string;
+}
+
+/**
+ * Snippet libraries stored inside the open workspace folders, so they can be
+ * committed with the project. Stores are created on first write, so merely
+ * opening a workspace never adds files to it.
+ */
+export class ProjectLibraries implements vscode.Disposable {
+    private stores = new Map<string, LocalStorage>();
+
+    private _onDidChangeExternally = new vscode.EventEmitter<void>();
+    readonly onDidChangeExternally = this._onDidChangeExternally.event;
+
+    getLibraries(): ProjectLibrary[] {
+        return (vscode.workspace.workspaceFolders || []).map(folder => ({
+            scope: folder.uri.toString(),
+            name: folder.name,
+            path: path.join(folder.uri.fsPath, PROJECT_LIBRARY_DIR)
+        }));
+    }
+
+    getLibrary(scope: string): ProjectLibrary | undefined {
+        return this.getLibraries().find(library => library.scope === scope);
+    }
+
+    async exists(scope: string): Promise<boolean> {
+        const library = this.getLibrary(scope);
+        if (!library) {
+            return false;
+        }
+        try {
+            await fs.promises.access(library.path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // Reads a project library without creating it
+    async getData(scope: string): Promise<LibraryData> {
+        if (!this.stores.has(scope) && !await this.exists(scope)) {
+            return { folders: [], snippets: [] };
+        }
+        return this.getStore(scope).getAllData();
+    }
+
+    async getTrash(scope: string): Promise<TrashEntry[]> {
+        if (!this.stores.has(scope) && !await this.exists(scope)) {
+            return [];
+        }
+        return this.getStore(scope).getTrash();
+    }
+
+    getStore(scope: string): SnippetStore {
+        const existing = this.stores.get(scope);
+        if (existing) {
+            return existing;
+        }
+
+        const library = this.getLibrary(scope);
+        if (!library) {
+            throw new Error('The workspace folder for this project library is no longer open');
+        }
+
+        // Project libraries are meant to be committed, so new ones use the
+        // one-file-per-snippet layout; existing JSON libraries keep working.
+        // They are never written to the backup folder.
+        const store = fs.existsSync(path.join(library.path, 'folders.json'))
+            ? new LocalStorage(library.path, null)
+            : new FileTreeStorage(library.path, null);
+        store.onDidChangeExternally(() => this._onDidChangeExternally.fire());
+        this.stores.set(scope, store);
+        return store;
+    }
+
+    // Drops stores for workspace folders that were closed
+    refresh(): void {
+        const openScopes = new Set(this.getLibraries().map(library => library.scope));
+        for (const [scope, store] of this.stores) {
+            if (!openScopes.has(scope)) {
+                store.dispose();
+                this.stores.delete(scope);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.stores.forEach(store => store.dispose());
+        this.stores.clear();
+        this._onDidChangeExternally.dispose();
+    }
+}
@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+import { LibraryData } from './types';
+
+/**
+ * A sync provider that keeps the library somewhere else (a git remote, a
+ * server). Syncing fetches the remote copy, merges it into the library with
+ * `syncLibrary`, then publishes the result.
+ */
+export interface RemoteSync extends vscode.Disposable {
+    readonly hasRemote: boolean;
+    readonly label: string;  // How messages name the remote, e.g. "the git remote"
+
+    // The remote copy of the library, or null if there isn't one yet
+    fetch(): Promise<LibraryData | null>;
+
+    // Fails if the remote copy changed since it was fetched
+    publish(data: LibraryData): Promise<void>;
+}
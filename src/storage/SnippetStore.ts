@@ -0,0 +1,64 @@
+import { ImportMode } from './ids';
+import { SnapshotInfo } from './snapshots';
+import { Folder, LibraryData, Snippet, SnippetRevision, SnippetUpdate, SyncState, TrashEntry } from './types';
+
+/**
+ * Everything the tree view and the commands need from a snippet library.
+ * `LocalStorage` is the default implementation; other backends only have to
+ * implement this interface (usually by extending `BaseStorage`).
+ */
+export interface SnippetStore {
+    getFolders(): Promise<Folder[]>;
+    getSubFolders(parentId: string): Promise<Folder[]>;
+    getRootFolders(): Promise<Folder[]>;
+    getSnippets(): Promise<Snippet[]>;
+    getAllSnippets(): Promise<Snippet[]>;
+    getSnippet(snippetId: string): Promise<Snippet | undefined>;
+    getAllData(): Promise<LibraryData>;
+
+    addFolder(name: string, parentId?: string | null): Promise<void>;
+    renameFolder(folderId: string, newName: string): Promise<void>;
+    deleteFolder(id: string): Promise<void>;  // Moves the folder and its contents to the Trash
+    updateFolderParent(folderId: string, newParentId: string | null): Promise<void>;
+    moveFolder(sourcePath: string, targetPath: string): Promise<void>;
+    updateFolderOrder(folderId: string, direction: 'up' | 'down'): Promise<void>;
+
+    addSnippet(snippet: Omit<Snippet, 'id' | 'lastModified'>): Promise<Snippet>;
+    updateSnippet(update: SnippetUpdate): Promise<void>;
+    renameSnippet(snippetId: string, newName: string): Promise<void>;
+    deleteSnippet(id: string): Promise<void>;  // Moves the snippet to the Trash
+    duplicateSnippet(id: string): Promise<Snippet>;
+    togglePinSnippet(id: string): Promise<void>;
+
+    // Revision history, newest first
+    getHistory(snippetId: string): Promise<SnippetRevision[]>;
+    restoreRevision(snippetId: string, revisionId: string): Promise<void>;
+    clearHistory(snippetId: string): Promise<void>;
+    // Drops or overwrites the earlier copies of these snippets this store
+    // keeps (history, snapshots, recovery copies), e.g. once they are encrypted
+    discardEarlierCopies(snippetIds: string[]): Promise<void>;
+
+    // Trash, newest first
+    getTrash(): Promise<TrashEntry[]>;
+    restoreFromTrash(entryId: string): Promise<void>;
+    deleteFromTrash(entryId: string): Promise<void>;
+    emptyTrash(): Promise<void>;
+    purgeTrash(olderThan: number): Promise<number>;
+
+    // Timestamped copies of the whole library, newest first
+    takeSnapshot(reason: string): Promise<void>;
+    getSnapshots(): Promise<SnapshotInfo[]>;
+    readSnapshot(id: string): Promise<LibraryData>;
+
+    // Base snapshot and open conflicts of the three-way sync
+    getSyncState(): Promise<SyncState>;
+    setSyncState(state: SyncState): Promise<void>;
+
+    // Bulk operations
+    transaction<T>(mutate: (draft: LibraryData) => T | Promise<T>): Promise<T>;
+    syncData(data: LibraryData): Promise<void>;
+    importData(jsonData: string, mode?: ImportMode): Promise<void>;
+    exportData(): Promise<string>;
+
+    dispose(): void;
+}
@@ -0,0 +1,127 @@
+import { Snippet } from './types';
+
+// A snippet the way VS Code's own snippet files store it
+export interface CodeSnippetEntry {
+    scope?: string;  // Comma-separated language IDs; all languages if unset
+    prefix: string | string[];
+    body: string | string[];
+    description?: string;
+}
+
+export type ImportedSnippet = Pick<Snippet, 'name' | 'code' | 'notes' | 'language' | 'prefix'>;
+
+// Languages of this extension whose VS Code language ID is different
+const VSCODE_LANGUAGE_IDS: { [language: string]: string } = {
+    shell: 'shellscript',
+    batch: 'bat',
+    react: 'javascriptreact',
+    reactts: 'typescriptreact'
+};
+
+const LANGUAGES_BY_VSCODE_ID: { [id: string]: string } = Object.fromEntries(
+    Object.entries(VSCODE_LANGUAGE_IDS).map(([language, id]) => [id, language])
+);
+
+// Other names this extension has for a language in the table above
+const LANGUAGE_ALIASES: { [language: string]: string } = {
+    bash: 'shell'
+};
+
+/**
+ * Reads a `.code-snippets` file, or a language snippet file like
+ * `javascript.json`, whose snippets have no scope; `fileLanguage` is then
+ * their language. Comments and trailing commas are allowed, as in VS Code.
+ * Snippets scoped to several languages get the first one.
+ */
+export function parseCodeSnippets(text: string, source: string, fileLanguage?: string): ImportedSnippet[] {
+    let content: any;
+    try {
+        content = JSON.parse(stripJsonComments(text));
+    } catch (error) {
+        throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+        throw new Error(`${source} is not a snippets file`);
+    }
+
+    return Object.entries<any>(content).map(([name, entry]) => {
+        if (!entry || typeof entry !== 'object' || (typeof entry.body !== 'string' && !Array.isArray(entry.body))) {
+            throw new Error(`${source} has an invalid snippet "${name}"`);
+        }
+        const scope = typeof entry.scope === 'string' ? entry.scope.split(',').map((id: string) => id.trim()).find(Boolean) : undefined;
+        const languageId = scope || fileLanguage;
+        const prefix = (Array.isArray(entry.prefix) ? entry.prefix : [entry.prefix]).filter((p: unknown): p is string => typeof p === 'string' && !!p);
+        return {
+            name,
+            code: Array.isArray(entry.body) ? entry.body.map(String).join('\n') : entry.body,
+            notes: typeof entry.description === 'string' ? entry.description : '',
+            language: languageId ? LANGUAGES_BY_VSCODE_ID[languageId] || languageId : 'plaintext',
+            prefix: prefix.length > 0 ? prefix : undefined
+        };
+    });
+}
+
+/**
+ * Writes snippets as a `.code-snippets` file. Snippets keep the prefix they
+ * were imported with; others get one made from the name. Snippets with the
+ * same name get a number so none is lost.
+ */
+export function toCodeSnippets(snippets: Snippet[]): string {
+    const entries: { [name: string]: CodeSnippetEntry } = {};
+    for (const snippet of snippets) {
+        let key = snippet.name;
+        for (let i = 2; key in entries; i++) {
+            key = `${snippet.name} (${i})`;
+        }
+
+        const plainText = !snippet.language || snippet.language === 'plaintext';
+        const language = LANGUAGE_ALIASES[snippet.language] || snippet.language;
+        const prefix = snippet.prefix && snippet.prefix.length > 0 ? snippet.prefix : [toPrefix(snippet.name)];
+        entries[key] = {
+            scope: plainText ? undefined : VSCODE_LANGUAGE_IDS[language] || language,
+            prefix: prefix.length === 1 ? prefix[0] : prefix,
+            body: snippet.code.split(/\r?\n/),
+            description: snippet.notes || undefined
+        };
+    }
+    return JSON.stringify(entries, null, 4) + '\n';
+}
+
+// e.g. "Fetch JSON (async)" -> "fetch-json-async"
+function toPrefix(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'snippet';
+}
+
+// Drops comments and trailing commas outside of strings
+function stripJsonComments(text: string): string {
+    let result = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += text[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i + 1 < text.length && text[i + 1] !== '\n') {
+                i++;
+            }
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else {
+            if (char === '}' || char === ']') {
+                const last = result.trimEnd();
+                if (last.endsWith(',')) {
+                    result = last.slice(0, -1);
+                }
+            }
+            inString = char === '"';
+            result += char;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Folder } from './types';
+
+// Encrypted values are stored as
+// `vss-enc:1:<salt>:<iv>:<auth tag>:<ciphertext>`, all base64
+const PREFIX = 'vss-enc:1:';
+const SECRET_KEY = 'snippets.encryptionKeys';
+const MAX_ATTEMPTS = 3;
+
+// scrypt parameters for deriving the AES-256-GCM key from the passphrase
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface StoredKeys {
+    current: string;                   // Salt used for new content
+    keys: { [salt: string]: string };  // Derived keys by salt
+}
+
+export function isEncryptedValue(value: string | undefined): boolean {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+// Whether new snippets in this folder must be encrypted
+export function isInEncryptedFolder(folders: Folder[], folderId: string | null): boolean {
+    const visited = new Set<string>();
+    let current = folders.find(f => f.id === folderId);
+    while (current && !visited.has(current.id)) {
+        if (current.encrypted) {
+            return true;
+        }
+        visited.add(current.id);
+        const parentId: string | null = current.parentId;
+        current = folders.find(f => f.id === parentId);
+    }
+    return false;
+}
+
+/**
+ * Encrypts and decrypts snippet content with a key derived from the user's
+ * passphrase. Derived keys are cached in VS Code's SecretStorage, so the
+ * passphrase is only asked for once per machine, or again after locking.
+ * `findEncryptedValue` returns any value already encrypted in the libraries;
+ * new content is encrypted with the passphrase of that value, and a new
+ * passphrase is only chosen when there is none.
+ */
+export class Keyring {
+    private stored: StoredKeys | undefined;
+
+    constructor(
+        private readonly secrets: vscode.SecretStorage,
+        private readonly findEncryptedValue: () => Promise<string | undefined>
+    ) { }
+
+    async encrypt(text: string): Promise<string> {
+        const stored = await this.getKeys() || await this.unlockExisting() || await this.createKey();
+        const key = Buffer.from(stored.keys[stored.current], 'base64');
+
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+        return PREFIX + [stored.current, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+    }
+
+    // Values that aren't encrypted are returned as they are
+    async decrypt(value: string): Promise<string> {
+        if (!isEncryptedValue(value)) {
+            return value;
+        }
+
+        const [salt, iv, tag, data] = value.slice(PREFIX.length).split(':');
+        const cached = (await this.getKeys())?.keys[salt];
+        if (cached) {
+            const text = tryDecrypt(Buffer.from(cached, 'base64'), iv, tag, data);
+            if (text !== undefined) {
+                return text;
+            }
+        }
+
+        // Encrypted on another machine, or the cached key is stale
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+            const passphrase = await vscode.window.showInputBox({
+                prompt: attempt === 1 ? 'Enter your snippet passphrase to unlock encrypted snippets' : 'Wrong passphrase, try again',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (passphrase === undefined) {
+                throw new Error('Passphrase required to unlock encrypted snippets');
+            }
+
+            const key = await deriveKey(passphrase, salt);
+            const text = tryDecrypt(key, iv, tag, data);
+            if (text !== undefined) {
+                await this.saveKey(salt, key);
+                return text;
+            }
+        }
+        throw new Error('Wrong passphrase');
+    }
+
+    // Forgets all cached keys; the passphrase is asked for again on next use
+    async lock(): Promise<void> {
+        this.stored = undefined;
+        await this.secrets.delete(SECRET_KEY);
+    }
+
+    private async getKeys(): Promise<StoredKeys | undefined> {
+        if (!this.stored) {
+            const secret = await this.secrets.get(SECRET_KEY);
+            if (secret) {
+                try {
+                    this.stored = JSON.parse(secret);
+                } catch {
+                    // A damaged entry only means asking for the passphrase again
+                }
+            }
+        }
+        return this.stored;
+    }
+
+    // Asks for the passphrase already in use (after locking, or on another
+    // machine) rather than starting a second one
+    private async unlockExisting(): Promise<StoredKeys | undefined> {
+        const value = await this.findEncryptedValue();
+        if (!value) {
+            return undefined;
+        }
+        await this.decrypt(value);
+        return this.getKeys();
+    }
+
+    private async createKey(): Promise<StoredKeys> {
+        const passphrase = await vscode.window.showInputBox({
+            prompt: 'Choose a passphrase for encrypted snippets. It cannot be recovered if you forget it.',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.length < 8 ? 'Use at least 8 characters' : undefined
+        });
+        if (passphrase === undefined) {
+            throw new Error('Passphrase required to encrypt snippets');
+        }
+        const confirmation = await vscode.window.showInputBox({
+            prompt: 'Enter the passphrase again',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (confirmation !== passphrase) {
+            throw new Error('The passphrases do not match');
+        }
+
+        const salt = crypto.randomBytes(16).toString('base64');
+        return this.saveKey(salt, await deriveKey(passphrase, salt));
+    }
+
+    private async saveKey(salt: string, key: Buffer): Promise<StoredKeys> {
+        const stored = await this.getKeys();
+        this.stored = {
+            current: stored?.current || salt,
+            keys: { ...stored?.keys, [salt]: key.toString('base64') }
+        };
+        await this.secrets.store(SECRET_KEY, JSON.stringify(this.stored));
+        return this.stored;
+    }
+}
+
+function deriveKey(passphrase: string, salt: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(passphrase, Buffer.from(salt, 'base64'), 32, SCRYPT_OPTIONS, (error, key) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(key);
+            }
+        });
+    });
+}
+
+// Undefined when the key is wrong or the data was tampered with
+function tryDecrypt(key: Buffer, iv: string, tag: string, data: string): string | undefined {
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,85 @@
+import * as crypto from 'crypto';
+import { Folder, LibraryData, Snippet, VersionVector } from './types';
+
+// How imported items with an ID that already exists here are treated
+export type ImportMode =
+    | 'merge'   // Same ID means same item; the newer version wins
+    | 'remap';  // Colliding items that aren't the same get new IDs and are kept side by side
+
+// Globally unique, so libraries created on different machines never collide.
+// Older libraries still contain timestamp IDs, which stay valid.
+export function createId(): string {
+    return crypto.randomUUID();
+}
+
+// IDs of incoming items that exist here but clearly aren't the same item:
+// the other kind of item, or one with nothing in common but the ID
+export function findIdCollisions(existing: LibraryData, incoming: LibraryData): Set<string> {
+    const folders = new Map(existing.folders.map(f => [f.id, f]));
+    const snippets = new Map(existing.snippets.map(s => [s.id, s]));
+    const collisions = new Set<string>();
+
+    incoming.folders.forEach(folder => {
+        const local = folders.get(folder.id);
+        if (snippets.has(folder.id) || (local && !isSameFolder(local, folder))) {
+            collisions.add(folder.id);
+        }
+    });
+    incoming.snippets.forEach(snippet => {
+        const local = snippets.get(snippet.id);
+        if (folders.has(snippet.id) || (local && !isSameSnippet(local, snippet))) {
+            collisions.add(snippet.id);
+        }
+    });
+
+    return collisions;
+}
+
+// Gives the given incoming items new IDs and rewrites the `parentId` and
+// `folderId` references to them
+export function remapIds(incoming: LibraryData, ids: Set<string>): LibraryData {
+    const folderIds = new Map<string, string>();
+    incoming.folders.forEach(folder => {
+        if (ids.has(folder.id)) {
+            folderIds.set(folder.id, createId());
+        }
+    });
+    const mapFolderId = (id: string) => folderIds.get(id) ?? id;
+
+    return {
+        folders: incoming.folders.map(folder => ({
+            ...folder,
+            id: mapFolderId(folder.id),
+            parentId: folder.parentId === null ? null : mapFolderId(folder.parentId)
+        })),
+        snippets: incoming.snippets.map(snippet => ({
+            ...snippet,
+            id: ids.has(snippet.id) ? createId() : snippet.id,
+            folderId: mapFolderId(snippet.folderId)
+        })),
+        tombstones: incoming.tombstones
+    };
+}
+
+// An item is the same when both copies were edited on the same device, or
+// when enough of it still matches: a snippet that was only renamed, moved or
+// edited is still the same item, but two root folders or two snippets that
+// merely share a name are not
+function isSameFolder(a: Folder, b: Folder): boolean {
+    return sharesHistory(a.version, b.version) || (a.name === b.name && a.parentId === b.parentId);
+}
+
+function isSameSnippet(a: Snippet, b: Snippet): boolean {
+    if (sharesHistory(a.version, b.version)) {
+        return true;
+    }
+    const sameName = a.name === b.name;
+    const sameFolder = a.folderId === b.folderId;
+    return (sameName && sameFolder) || ((sameName || sameFolder) && a.code === b.code);
+}
+
+// IDs are unique on every device, so two items with the same ID that were
+// both edited on one device are copies of one item
+function sharesHistory(a: VersionVector | undefined, b: VersionVector | undefined): boolean {
+    return Object.keys(a || {}).some(device => !!a?.[device] && !!b?.[device]);
+}
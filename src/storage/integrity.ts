@@ -0,0 +1,182 @@
+import { Folder, LibraryData } from './types';
+import { createId } from './ids';
+
+export type IssueKind = 'duplicateId' | 'danglingParent' | 'cycle' | 'orphanSnippet' | 'duplicateOrder';
+
+export interface IntegrityIssue {
+    kind: IssueKind;
+    itemId: string;
+    message: string;
+}
+
+// Name of the top-level folder that orphaned snippets and folders are moved into
+export const RECOVERED_FOLDER_NAME = 'Recovered';
+
+// Fixes are always applied in this order, e.g. IDs are deduplicated before
+// references to them are checked
+export const ISSUE_KINDS: IssueKind[] = ['duplicateId', 'danglingParent', 'cycle', 'orphanSnippet', 'duplicateOrder'];
+
+export function checkLibrary(data: LibraryData): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+    const folderIds = new Set(data.folders.map(f => f.id));
+
+    // Every ID must be unique across folders and snippets, or tree items clash
+    const seen = new Set<string>();
+    [...data.folders.map(f => ({ item: f, kind: 'Folder' })), ...data.snippets.map(s => ({ item: s, kind: 'Snippet' }))]
+        .forEach(({ item, kind }) => {
+            if (seen.has(item.id)) {
+                issues.push({ kind: 'duplicateId', itemId: item.id, message: `${kind} "${item.name}" reuses the ID ${item.id}` });
+            }
+            seen.add(item.id);
+        });
+
+    data.folders.forEach(folder => {
+        if (folder.parentId !== null && !folderIds.has(folder.parentId)) {
+            issues.push({ kind: 'danglingParent', itemId: folder.id, message: `Folder "${folder.name}" is inside a folder that no longer exists` });
+        }
+    });
+
+    findCycles(data.folders).forEach(cycle => {
+        issues.push({
+            kind: 'cycle',
+            itemId: cycle[0].id,
+            message: `Folders ${cycle.map(f => `"${f.name}"`).join(', ')} are nested inside each other`
+        });
+    });
+
+    data.snippets.forEach(snippet => {
+        if (!folderIds.has(snippet.folderId)) {
+            issues.push({ kind: 'orphanSnippet', itemId: snippet.id, message: `Snippet "${snippet.name}" is in a folder that no longer exists` });
+        }
+    });
+
+    groupSiblings(data.folders).forEach(siblings => {
+        const orders = new Map<number, Folder[]>();
+        siblings.filter(f => f.order !== undefined).forEach(f => {
+            orders.set(f.order!, [...(orders.get(f.order!) || []), f]);
+        });
+        orders.forEach(folders => {
+            if (folders.length > 1) {
+                issues.push({
+                    kind: 'duplicateOrder',
+                    itemId: folders[0].id,
+                    message: `Folders ${folders.map(f => `"${f.name}"`).join(', ')} share the same position`
+                });
+            }
+        });
+    });
+
+    return issues;
+}
+
+// Fixes the selected kinds of problems in place
+export function repairLibrary(data: LibraryData, kinds: Set<IssueKind>): void {
+    if (kinds.has('duplicateId')) {
+        const seen = new Set<string>();
+        data.folders = data.folders.map(folder => {
+            const id = seen.has(folder.id) ? createId() : folder.id;
+            seen.add(id);
+            return id === folder.id ? folder : { ...folder, id, lastModified: Date.now() };
+        });
+        data.snippets = data.snippets.map(snippet => {
+            const id = seen.has(snippet.id) ? createId() : snippet.id;
+            seen.add(id);
+            return id === snippet.id ? snippet : { ...snippet, id, lastModified: Date.now() };
+        });
+    }
+
+    if (kinds.has('danglingParent')) {
+        const folderIds = new Set(data.folders.map(f => f.id));
+        const dangling = data.folders.filter(f => f.parentId !== null && !folderIds.has(f.parentId));
+        if (dangling.length > 0) {
+            const recoveredId = getRecoveredFolder(data).id;
+            dangling.forEach(folder => {
+                folder.parentId = recoveredId;
+                folder.lastModified = Date.now();
+            });
+        }
+    }
+
+    if (kinds.has('cycle')) {
+        // Moving one folder of each cycle to the top level breaks it
+        findCycles(data.folders).forEach(cycle => {
+            cycle[0].parentId = null;
+            cycle[0].lastModified = Date.now();
+        });
+    }
+
+    if (kinds.has('orphanSnippet')) {
+        const folderIds = new Set(data.folders.map(f => f.id));
+        const orphans = data.snippets.filter(s => !folderIds.has(s.folderId));
+        if (orphans.length > 0) {
+            const recoveredId = getRecoveredFolder(data).id;
+            orphans.forEach(snippet => {
+                snippet.folderId = recoveredId;
+                snippet.lastModified = Date.now();
+            });
+        }
+    }
+
+    if (kinds.has('duplicateOrder')) {
+        groupSiblings(data.folders).forEach(siblings => {
+            siblings
+                .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.name.localeCompare(b.name))
+                .forEach((folder, index) => {
+                    if (folder.order !== index) {
+                        folder.order = index;
+                        folder.lastModified = Date.now();
+                    }
+                });
+        });
+    }
+}
+
+function getRecoveredFolder(data: LibraryData): Folder {
+    const existing = data.folders.find(f => f.parentId === null && f.name === RECOVERED_FOLDER_NAME);
+    if (existing) {
+        return existing;
+    }
+
+    const rootOrders = data.folders.filter(f => f.parentId === null).map(f => f.order || 0);
+    const folder: Folder = {
+        id: createId(),
+        name: RECOVERED_FOLDER_NAME,
+        parentId: null,
+        type: 'primary',
+        lastModified: Date.now(),
+        order: Math.max(...rootOrders, -1) + 1
+    };
+    data.folders.push(folder);
+    return folder;
+}
+
+// Each cycle once, starting with the folder that appears first in the library
+function findCycles(folders: Folder[]): Folder[][] {
+    const byId = new Map(folders.map(f => [f.id, f]));
+    const cycles: Folder[][] = [];
+    const done = new Set<string>();
+
+    folders.forEach(start => {
+        const path: Folder[] = [];
+        let current: Folder | undefined = start;
+        while (current && !done.has(current.id) && !path.includes(current)) {
+            path.push(current);
+            current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+        }
+        if (current && path.includes(current)) {
+            const cycle = path.slice(path.indexOf(current));
+            cycles.push(cycle.sort((a, b) => folders.indexOf(a) - folders.indexOf(b)));
+        }
+        path.forEach(f => done.add(f.id));
+    });
+
+    return cycles;
+}
+
+function groupSiblings(folders: Folder[]): Folder[][] {
+    const groups = new Map<string | null, Folder[]>();
+    folders.forEach(folder => {
+        groups.set(folder.parentId, [...(groups.get(folder.parentId) || []), folder]);
+    });
+    return Array.from(groups.values());
+}
@@ -0,0 +1,214 @@
+import { Folder, LibraryData, Snippet, Tombstone, VersionVector } from './types';
+import { assertSupportedSchema, CURRENT_SCHEMA_VERSION } from './migrations';
+
+export const INTERCHANGE_FORMAT = 'vs-snippets';
+export const INTERCHANGE_VERSION = 2;
+
+/**
+ * The interchange format, used for exports, the backup folder's snippets.json,
+ * the git sync repository and snapshots. Version 2 looks like this:
+ *
+ *   {
+ *     "format": "vs-snippets",
+ *     "version": 2,
+ *     "schemaVersion": 2,            // Store schema the items follow
+ *     "timestamp": "2024-05-01T10:20:30.000Z",
+ *     "folders": [{ "id", "name", "parentId", "type", "order", "lastModified", "encrypted", "localOnly", "version" }],
+ *     "snippets": [{ "id", "name", "folderId", "language", "code", "notes", "tags", "pinned", "lastModified", "encrypted", "prefix", "version" }],
+ *     "tombstones": [{ "id", "kind", "deletedAt", "version" }],
+ *     "localOnlyFolders": ["<folder id>"]  // Synced copies only, see `selectSyncedData`
+ *   }
+ *
+ * Every field of `Folder` and `Snippet` is written; `order`, `encrypted`,
+ * `localOnly`, `prefix` and `version` (a version vector like
+ * { "<device id>": 3 }) are left out when unset. Readers also accept the older shapes:
+ *
+ *   - { "version": "1.0", "data": [...] }, items marked with "type": "folder" (backup files)
+ *   - { "version": "1.0", "data": { "folders", "snippets" } } (`exportData`)
+ *   - { "folders", "snippets" } (the Export Snippets command, snapshots)
+ *   - [...] with "type": "folder" items (early exports)
+ *
+ * Optional fields a legacy file doesn't have are left out of the decoded
+ * items rather than defaulted, so syncing with such a file doesn't reset
+ * them (see `mergeLibraries`).
+ */
+export interface InterchangeFile {
+    format: typeof INTERCHANGE_FORMAT;
+    version: number;
+    schemaVersion: number;
+    timestamp: string;
+    folders: Folder[];
+    snippets: Snippet[];
+    tombstones: Tombstone[];
+    localOnlyFolders?: string[];
+}
+
+export function encodeLibrary(data: LibraryData): InterchangeFile {
+    const file: InterchangeFile = {
+        format: INTERCHANGE_FORMAT,
+        version: INTERCHANGE_VERSION,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        timestamp: new Date().toISOString(),
+        folders: data.folders.map(folder => ({
+            id: folder.id,
+            name: folder.name,
+            parentId: folder.parentId ?? null,
+            type: folder.type === 'secondary' ? 'secondary' : 'primary',
+            order: folder.order,
+            lastModified: folder.lastModified || Date.now(),
+            encrypted: folder.encrypted || undefined,
+            localOnly: folder.localOnly || undefined,
+            version: folder.version
+        })),
+        snippets: data.snippets.map(snippet => ({
+            id: snippet.id,
+            name: snippet.name,
+            folderId: snippet.folderId,
+            language: snippet.language || 'plaintext',
+            code: snippet.code || '',
+            notes: snippet.notes || '',
+            tags: snippet.tags || [],
+            pinned: snippet.pinned ?? false,
+            lastModified: snippet.lastModified || Date.now(),
+            encrypted: snippet.encrypted || undefined,
+            prefix: snippet.prefix,
+            version: snippet.version
+        })),
+        tombstones: data.tombstones || []
+    };
+    if (data.localOnlyFolders) {
+        file.localOnlyFolders = data.localOnlyFolders;
+    }
+    return file;
+}
+
+// 1 for the legacy shapes
+export function getFormatVersion(content: any): number {
+    return content && content.format === INTERCHANGE_FORMAT && typeof content.version === 'number' ? content.version : 1;
+}
+
+// Throws when the content was written by a newer version of the extension.
+// `source` names it in the error, e.g. "The backup file".
+export function assertSupportedFormat(content: any, source: string): void {
+    const version = getFormatVersion(content);
+    if (version > INTERCHANGE_VERSION) {
+        throw new Error(
+            `${source} uses format version ${version}, but this version of VS Snippets only reads up to ${INTERCHANGE_VERSION}. Please update the extension.`
+        );
+    }
+    assertSupportedSchema(content?.schemaVersion, source);
+}
+
+/**
+ * Reads a library from parsed JSON in the current or any legacy shape.
+ * Throws if the content isn't a library or has an invalid item.
+ */
+export function decodeLibrary(content: any, source: string): LibraryData {
+    assertSupportedFormat(content, source);
+
+    let folders: any[];
+    let snippets: any[];
+    if (Array.isArray(content) || (content && Array.isArray(content.data))) {
+        const items: any[] = Array.isArray(content) ? content : content.data;
+        folders = items.filter(item => item && item.type === 'folder');
+        snippets = items.filter(item => item && item.type !== 'folder');
+    } else if (content && typeof content === 'object' && (Array.isArray(content.folders) || Array.isArray(content.snippets))) {
+        folders = content.folders || [];
+        snippets = content.snippets || [];
+    } else if (content && content.data && typeof content.data === 'object') {
+        folders = Array.isArray(content.data.folders) ? content.data.folders : [];
+        snippets = Array.isArray(content.data.snippets) ? content.data.snippets : [];
+    } else {
+        throw new Error(`${source} is not a snippet library`);
+    }
+
+    const data: LibraryData = {
+        folders: folders.map((folder, index) => decodeFolder(folder, index, source)),
+        snippets: snippets.map((snippet, index) => decodeSnippet(snippet, index, source)),
+        tombstones: Array.isArray(content.tombstones) ? content.tombstones.filter(isTombstone).map(decodeTombstone) : []
+    };
+    if (Array.isArray(content.localOnlyFolders)) {
+        data.localOnlyFolders = content.localOnlyFolders.filter((id: unknown) => typeof id === 'string');
+    }
+    return data;
+}
+
+function decodeFolder(item: any, index: number, source: string): Folder {
+    if (!item || typeof item.id !== 'string' || !item.id || typeof item.name !== 'string' ||
+        (item.parentId !== undefined && item.parentId !== null && typeof item.parentId !== 'string')) {
+        throw new Error(`${source} has an invalid folder at index ${index}`);
+    }
+
+    const folder: Folder = {
+        id: item.id,
+        name: item.name,
+        parentId: item.parentId ?? null,
+        // Old exports mark folders with type "folder" instead of primary/secondary
+        type: item.type === 'secondary' ? 'secondary' : 'primary',
+        lastModified: typeof item.lastModified === 'number' ? item.lastModified : Date.now()
+    };
+    if (typeof item.order === 'number') {
+        folder.order = item.order;
+    }
+    if (item.encrypted) {
+        folder.encrypted = true;
+    }
+    if (item.localOnly) {
+        folder.localOnly = true;
+    }
+    if (isVersionVector(item.version)) {
+        folder.version = item.version;
+    }
+    return folder;
+}
+
+function decodeSnippet(item: any, index: number, source: string): Snippet {
+    if (!item || typeof item.id !== 'string' || !item.id || typeof item.name !== 'string' ||
+        typeof item.folderId !== 'string' || !item.folderId ||
+        (item.code !== undefined && typeof item.code !== 'string')) {
+        throw new Error(`${source} has an invalid snippet at index ${index}`);
+    }
+
+    const snippet: Snippet = {
+        id: item.id,
+        name: item.name,
+        folderId: item.folderId,
+        code: item.code || '',
+        language: typeof item.language === 'string' && item.language ? item.language : 'plaintext',
+        notes: typeof item.notes === 'string' ? item.notes : '',
+        lastModified: typeof item.lastModified === 'number' ? item.lastModified : Date.now()
+    };
+    if (Array.isArray(item.tags)) {
+        snippet.tags = item.tags.filter((tag: unknown) => typeof tag === 'string');
+    }
+    if (typeof item.pinned === 'boolean') {
+        snippet.pinned = item.pinned;
+    }
+    if (item.encrypted) {
+        snippet.encrypted = true;
+    }
+    if (Array.isArray(item.prefix)) {
+        snippet.prefix = item.prefix.filter((prefix: unknown) => typeof prefix === 'string');
+    }
+    if (isVersionVector(item.version)) {
+        snippet.version = item.version;
+    }
+    return snippet;
+}
+
+function decodeTombstone(item: Tombstone): Tombstone {
+    const tombstone: Tombstone = { id: item.id, kind: item.kind, deletedAt: item.deletedAt };
+    if (isVersionVector(item.version)) {
+        tombstone.version = item.version;
+    }
+    return tombstone;
+}
+
+function isVersionVector(value: any): value is VersionVector {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value).every(count => typeof count === 'number');
+}
+
+function isTombstone(item: any): item is Tombstone {
+    return !!item && typeof item.id === 'string' && (item.kind === 'folder' || item.kind === 'snippet') && typeof item.deletedAt === 'number';
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+export const DEFAULT_STORAGE_PATH = path.join(os.homedir(), '.vscode', 'snippets');
+
+// The default library lives directly in the storage root, so existing
+// installs keep their data where it always was. Named libraries live in
+// `<root>/libraries/<name>`.
+export const DEFAULT_LIBRARY = 'Default';
+
+const ACTIVE_LIBRARY_KEY = 'snippets.activeLibrary';
+
+export function getStorageRoot(): string {
+    const configured = vscode.workspace.getConfiguration('snippets').get<string>('storagePath');
+    return configured ? configured : DEFAULT_STORAGE_PATH;
+}
+
+export function getLibraryPath(name: string): string {
+    return name === DEFAULT_LIBRARY
+        ? getStorageRoot()
+        : path.join(getStorageRoot(), 'libraries', name);
+}
+
+export async function listLibraries(): Promise<string[]> {
+    try {
+        const entries = await fs.promises.readdir(path.join(getStorageRoot(), 'libraries'), { withFileTypes: true });
+        const names = entries
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name)
+            .sort((a, b) => a.localeCompare(b));
+        return [DEFAULT_LIBRARY, ...names.filter(name => name !== DEFAULT_LIBRARY)];
+    } catch {
+        return [DEFAULT_LIBRARY];
+    }
+}
+
+export function validateLibraryName(name: string): string | undefined {
+    if (!/^[\w][\w .-]*$/.test(name.trim())) {
+        return 'Use letters, numbers, spaces, dots, dashes and underscores only';
+    }
+    return undefined;
+}
+
+// The active library is kept per machine, like the backup folder
+export function getActiveLibrary(context: vscode.ExtensionContext): string {
+    return context.globalState.get<string>(ACTIVE_LIBRARY_KEY) || DEFAULT_LIBRARY;
+}
+
+export async function setActiveLibrary(context: vscode.ExtensionContext, name: string): Promise<void> {
+    await context.globalState.update(ACTIVE_LIBRARY_KEY, name);
+}
+
+// The default library uses `snippets.backupFolder`; every other library has
+// its own entry in `snippets.libraryBackupFolders`.
+export function getBackupFolder(library: string): string | undefined {
+    const config = vscode.workspace.getConfiguration('snippets');
+    if (library === DEFAULT_LIBRARY) {
+        return config.get<string>('backupFolder') || undefined;
+    }
+    const folders = config.get<{ [library: string]: string }>('libraryBackupFolders') || {};
+    return folders[library] || undefined;
+}
+
+export async function setBackupFolder(library: string, folderPath: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('snippets');
+    if (library === DEFAULT_LIBRARY) {
+        await config.update('backupFolder', folderPath, vscode.ConfigurationTarget.Global);
+        return;
+    }
+    const folders = { ...(config.get<{ [library: string]: string }>('libraryBackupFolders') || {}) };
+    folders[library] = folderPath;
+    await config.update('libraryBackupFolders', folders, vscode.ConfigurationTarget.Global);
+}
@@ -0,0 +1,243 @@
+import { Folder, LibraryData, Snippet } from './types';
+import { planSync, SyncPlan } from './merge';
+import { createId } from './ids';
+import { getLanguageExtension, getLanguageForExtension } from '../languages';
+
+// Markdown has six heading levels; deeper folders are written at this level
+// so their snippets still get a heading one level below
+const MAX_FOLDER_LEVEL = 5;
+
+const TAGS_LINE = /^tags:\s*(.*)$/i;
+const QUOTE_LINE = /^ {0,3}> ?(.*)$/;
+
+interface Section {
+    level: number;  // 0 for the text before the first heading
+    title: string;
+    text: string[];
+    blocks: { language: string; code: string }[];
+}
+
+/**
+ * Renders folders and their snippets as Markdown: a heading per folder, and
+ * below it a heading per snippet with its notes as a quote, its tags and its
+ * code in a fenced block tagged with the language. Subfolders follow the
+ * snippets one level deeper. Renders the folder `rootId`, or the whole
+ * library for null. `parseMarkdown` reads the result back.
+ */
+export function toMarkdown(data: LibraryData, rootId: string | null): string {
+    const lines: string[] = [];
+    const byOrder = (a: Folder, b: Folder) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+
+    const renderSnippet = (snippet: Snippet, level: number) => {
+        lines.push(`${'#'.repeat(level)} ${snippet.name}`, '');
+        // Notes are quoted, so headings or a "Tags:" line in them stay notes
+        if (snippet.notes.trim()) {
+            lines.push(...snippet.notes.trim().split(/\r?\n/).map(line => line ? `> ${line}` : '>'), '');
+        }
+        if (snippet.tags && snippet.tags.length > 0) {
+            lines.push(`Tags: ${snippet.tags.map(tag => `\`${tag}\``).join(', ')}`, '');
+        }
+        // The fence must be longer than any run of backticks in the code
+        const longestRun = Math.max(0, ...(snippet.code.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        const language = snippet.language && snippet.language !== 'plaintext' ? snippet.language : 'text';
+        lines.push(fence + language, ...snippet.code.split(/\r?\n/), fence, '');
+    };
+
+    const renderFolder = (folder: Folder, level: number, visited: Set<string>) => {
+        visited.add(folder.id);
+        lines.push(`${'#'.repeat(level)} ${folder.name}`, '');
+        data.snippets.filter(s => s.folderId === folder.id).forEach(snippet => renderSnippet(snippet, level + 1));
+        data.folders
+            .filter(f => f.parentId === folder.id && !visited.has(f.id))
+            .sort(byOrder)
+            .forEach(child => renderFolder(child, Math.min(level + 1, MAX_FOLDER_LEVEL), visited));
+    };
+
+    const roots = rootId === null
+        ? data.folders.filter(f => f.parentId === null).sort(byOrder)
+        : data.folders.filter(f => f.id === rootId);
+    const visited = new Set<string>();
+    roots.forEach(folder => renderFolder(folder, 1, visited));
+    return lines.join('\n');
+}
+
+/**
+ * Reads Markdown into new folders and snippets. Every fenced code block is a
+ * snippet, named after the heading it is under, with the other text of that
+ * section as its notes and a "Tags:" line as its tags. Headings without code
+ * blocks of their own are folders, nested by heading level; folders that
+ * end up without snippets are left out. Top-level folders go into
+ * `parentId`. Code blocks outside of any folder go into `parentId` as well,
+ * or at the top level into a new folder named `looseFolderName`.
+ */
+export function parseMarkdown(text: string, parentId: string | null, looseFolderName: string): LibraryData {
+    const folders: Folder[] = [];
+    const snippets: Snippet[] = [];
+    const now = Date.now();
+    let looseFolderId = parentId;
+
+    const addSnippets = (section: Section, folderId: string | null) => {
+        if (folderId === null) {
+            if (looseFolderId === null) {
+                looseFolderId = createId();
+                folders.push({ id: looseFolderId, name: looseFolderName, parentId: null, type: 'primary', lastModified: now });
+            }
+            folderId = looseFolderId;
+        }
+
+        const { notes, tags } = parseSectionText(section.text);
+        section.blocks.forEach((block, index) => {
+            const name = section.title || `Snippet ${snippets.length + 1}`;
+            snippets.push({
+                id: createId(),
+                name: index === 0 ? name : `${name} (${index + 1})`,
+                folderId: folderId!,
+                code: block.code,
+                language: block.language,
+                notes: index === 0 ? notes : '',
+                tags: index === 0 ? tags : [],
+                lastModified: now
+            });
+        });
+    };
+
+    const stack: { level: number; id: string }[] = [];
+    for (const section of splitSections(text)) {
+        if (section.level === 0) {
+            addSnippets(section, parentId);
+            continue;
+        }
+        while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+            stack.pop();
+        }
+        const folderId = stack.length > 0 ? stack[stack.length - 1].id : parentId;
+        if (section.blocks.length > 0) {
+            addSnippets(section, folderId);
+        } else {
+            const folder: Folder = { id: createId(), name: section.title, parentId: folderId, type: 'primary', lastModified: now };
+            folders.push(folder);
+            stack.push({ level: section.level, id: folder.id });
+        }
+    }
+
+    // Headings that only held text aren't worth a folder
+    const used = new Set<string>();
+    snippets.forEach(snippet => {
+        let current = folders.find(f => f.id === snippet.folderId);
+        while (current && !used.has(current.id)) {
+            used.add(current.id);
+            current = folders.find(f => f.id === current!.parentId);
+        }
+    });
+    return { folders: folders.filter(f => used.has(f.id)), snippets };
+}
+
+/**
+ * What importing parsed Markdown would add to the library, as a plan for the
+ * sync preview. With `selected`, only those items are added; snippets and
+ * folders whose folder was left out go into its closest added ancestor, or
+ * where the import goes.
+ */
+export function planMarkdownImport(current: LibraryData, imported: LibraryData, selected?: Set<string>): SyncPlan {
+    // New top-level folders go after the folders already there
+    const importedIds = new Set(imported.folders.map(f => f.id));
+    const folders = imported.folders.map((folder, index) => {
+        if (importedIds.has(folder.parentId as string)) {
+            return folder;
+        }
+        const siblings = current.folders.filter(f => f.parentId === folder.parentId);
+        return { ...folder, order: Math.max(...siblings.map(f => f.order || 0), -1) + 1 + index };
+    });
+
+    const withoutTombstones = (data: LibraryData) => ({ folders: data.folders, snippets: data.snippets, tombstones: [] });
+    const plan = planSync(
+        withoutTombstones(current),
+        withoutTombstones(current),
+        { folders: [...current.folders, ...folders], snippets: [...current.snippets, ...imported.snippets], tombstones: [] },
+        selected
+    );
+    if (!selected) {
+        return plan;
+    }
+
+    const kept = new Set(plan.folders.map(f => f.id));
+    const closestKept = (folderId: string | null): string | null => {
+        let current = folders.find(f => f.id === folderId);
+        while (current && !kept.has(current.id)) {
+            const parentId: string | null = current.parentId;
+            current = folders.find(f => f.id === parentId);
+            folderId = parentId;
+        }
+        return folderId;
+    };
+    plan.folders = plan.folders.map(f => importedIds.has(f.id) ? { ...f, parentId: closestKept(f.parentId) } : f);
+    // Snippets imported at the top level can't stay without their folder
+    plan.snippets = plan.snippets
+        .map(s => importedIds.has(s.folderId) ? { ...s, folderId: closestKept(s.folderId) as string } : s)
+        .filter(s => s.folderId !== null);
+    return plan;
+}
+
+// Splits Markdown at its ATX headings, keeping fenced code blocks whole
+function splitSections(text: string): Section[] {
+    const sections: Section[] = [{ level: 0, title: '', text: [], blocks: [] }];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const section = sections[sections.length - 1];
+
+        const fence = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/);
+        if (fence) {
+            const marker = fence[1];
+            const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+            const code: string[] = [];
+            while (i + 1 < lines.length && !closing.test(lines[i + 1])) {
+                code.push(lines[++i]);
+            }
+            i++;  // The closing fence
+            section.blocks.push({ language: toLanguage(fence[2]), code: code.join('\n') });
+            continue;
+        }
+
+        const heading = line.match(/^ {0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/);
+        if (heading) {
+            sections.push({ level: heading[1].length, title: heading[2].trim(), text: [], blocks: [] });
+        } else {
+            section.text.push(line);
+        }
+    }
+    return sections;
+}
+
+// Quoted lines are notes as `toMarkdown` writes them; other text is taken
+// as notes too, except for a "Tags:" line
+function parseSectionText(lines: string[]): { notes: string; tags: string[] } {
+    let tags: string[] = [];
+    const notes: string[] = [];
+    for (const line of lines) {
+        const quote = line.match(QUOTE_LINE);
+        const match = !quote && line.trim().match(TAGS_LINE);
+        if (quote) {
+            notes.push(quote[1]);
+        } else if (match) {
+            tags = match[1].split(',').map(tag => tag.trim().replace(/^[`#]+|`+$/g, '').trim()).filter(Boolean);
+        } else {
+            notes.push(line);
+        }
+    }
+    return { notes: notes.join('\n').trim(), tags };
+}
+
+// Info strings can be language names ("javascript") or extensions ("js")
+function toLanguage(info: string): string {
+    const name = info.toLowerCase();
+    if (!name || name === 'text' || name === 'txt' || name === 'plaintext') {
+        return 'plaintext';
+    }
+    if (getLanguageExtension(name) !== 'txt') {
+        return name;
+    }
+    const byExtension = getLanguageForExtension(name);
+    return byExtension !== 'plaintext' ? byExtension : name;
+}
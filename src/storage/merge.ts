@@ -0,0 +1,437 @@
+import { SnippetStore } from './SnippetStore';
+import { Folder, LibraryData, Snippet, SyncConflict, SyncConflictField, SyncValue } from './types';
+import { applyTombstones, removeTombstones } from './tombstones';
+import { createId } from './ids';
+import { compareVersions, incrementVersion, joinVersions } from './versions';
+import { getSyncExclusions } from './selectiveSync';
+
+// Fields where diverging edits are reported as conflicts. Other fields
+// (pinned, ...) silently keep the local value.
+const SNIPPET_CONFLICT_FIELDS: SyncConflictField[] = ['name', 'folderId', 'code', 'notes', 'tags', 'language'];
+const FOLDER_CONFLICT_FIELDS: SyncConflictField[] = ['name', 'parentId'];
+
+// Ciphertext and plain text can't be mixed, so these always come from one side
+const ENCRYPTED_CONTENT_FIELDS = ['code', 'notes', 'encrypted'];
+
+type Item = Folder | Snippet;
+
+export interface MergeResult {
+    folders: Folder[];
+    snippets: Snippet[];
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Merge of this device's library with a remote copy (the backup file). Items
+ * are compared by their version vectors: the copy that has seen all edits of
+ * the other is taken as it is. Items edited on both sides are merged field by
+ * field against the library as it was after the last successful sync; changes
+ * made on only one side are taken, and fields changed differently on both
+ * sides keep the local value and are reported as conflicts. Without a base
+ * (e.g. the first sync), every field that differs is a conflict.
+ *
+ * Items without a version vector on either side (written before they
+ * existed) fall back to the three-way merge, and without a base the newer
+ * item wins.
+ */
+export function mergeLibraries(base: LibraryData | null, local: LibraryData, remote: LibraryData): MergeResult {
+    const conflicts: SyncConflict[] = [];
+    const folders = mergeItems('folder', base?.folders, local.folders, remote.folders, FOLDER_CONFLICT_FIELDS, conflicts);
+    const snippets = mergeItems('snippet', base?.snippets, local.snippets, remote.snippets, SNIPPET_CONFLICT_FIELDS, conflicts);
+    return { folders, snippets, conflicts };
+}
+
+function mergeItems<T extends Item>(
+    kind: 'folder' | 'snippet',
+    base: T[] | undefined,
+    local: T[],
+    remote: T[],
+    conflictFields: SyncConflictField[],
+    conflicts: SyncConflict[]
+): T[] {
+    const baseById = new Map((base || []).map(item => [item.id, item]));
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+    const localIds = new Set(local.map(item => item.id));
+    const merged: T[] = [];
+
+    for (const localItem of local) {
+        const remoteItem = remoteById.get(localItem.id);
+        const baseItem = baseById.get(localItem.id);
+        if (!remoteItem) {
+            // Deleted remotely; keep it only if it was changed here since
+            if (!baseItem || !isSame(localItem, baseItem)) {
+                merged.push(localItem);
+            }
+            continue;
+        }
+        // Items from before version vectors (on either side) fall back to the three-way merge
+        const order = localItem.version && remoteItem.version ? compareVersions(localItem.version, remoteItem.version) : undefined;
+        if (order === 'after' || order === 'before') {
+            merged.push(order === 'after' ? localItem : remoteItem);
+            continue;
+        }
+        if (!order && !baseItem) {
+            merged.push(remoteItem.lastModified > localItem.lastModified ? remoteItem : localItem);
+            continue;
+        }
+        merged.push(mergeItem(kind, baseItem, localItem, remoteItem, conflictFields, conflicts, order === 'concurrent'));
+    }
+
+    for (const remoteItem of remote) {
+        if (localIds.has(remoteItem.id)) {
+            continue;
+        }
+        // Deleted here; bring it back only if it was changed remotely since
+        const baseItem = baseById.get(remoteItem.id);
+        if (!baseItem || !sameOn(remoteItem, baseItem, [...Object.keys(remoteItem), 'encrypted'])) {
+            merged.push(remoteItem);
+        }
+    }
+
+    return merged;
+}
+
+function mergeItem<T extends Item>(
+    kind: 'folder' | 'snippet',
+    base: T | undefined,
+    local: T,
+    remote: T,
+    conflictFields: SyncConflictField[],
+    conflicts: SyncConflict[],
+    concurrent: boolean
+): T {
+    const result: Record<string, unknown> = { ...local };
+    const baseFields = (base || {}) as unknown as Record<string, unknown>;
+    const localFields = local as unknown as Record<string, unknown>;
+    const remoteFields = remote as unknown as Record<string, unknown>;
+    // Concurrent edits keep the local value; the next sync hands it to the other side
+    const remoteWins = !concurrent && remote.lastModified > local.lastModified;
+
+    // Encrypted on one side only: take the content from the side that changed it
+    const encryptionDiffers = kind === 'snippet' && !!localFields.encrypted !== !!remoteFields.encrypted;
+    if (encryptionDiffers) {
+        const localChanged = !!localFields.encrypted !== !!baseFields.encrypted;
+        const source = localChanged ? localFields : remoteFields;
+        for (const field of ENCRYPTED_CONTENT_FIELDS) {
+            result[field] = source[field];
+        }
+    }
+
+    // Backups written before the interchange format only carry some fields (e.g. no folder
+    // order); the others stay as they are here
+    for (const field of Object.keys(remote)) {
+        if (field === 'id' || field === 'lastModified' || field === 'version' || (encryptionDiffers && ENCRYPTED_CONTENT_FIELDS.includes(field))) {
+            continue;
+        }
+
+        const baseValue = baseFields[field];
+        const localValue = localFields[field];
+        const remoteValue = remoteFields[field];
+        if (isSame(localValue, remoteValue) || (base && isSame(remoteValue, baseValue))) {
+            continue;
+        }
+        if (base && isSame(localValue, baseValue)) {
+            result[field] = remoteValue;
+            continue;
+        }
+
+        // Changed differently on both sides
+        if (conflictFields.includes(field as SyncConflictField)) {
+            conflicts.push({
+                id: createId(),
+                kind,
+                itemId: local.id,
+                name: local.name,
+                field: field as SyncConflictField,
+                base: toSyncValue(baseValue),
+                local: toSyncValue(localValue),
+                remote: toSyncValue(remoteValue),
+                encrypted: kind === 'snippet' ? (local as Snippet).encrypted || undefined : undefined,
+                detectedAt: Date.now()
+            });
+        } else if (remoteWins) {
+            result[field] = remoteValue;
+        }
+    }
+
+    const changed = !sameContent(result, localFields);
+    result.lastModified = changed ? Math.max(local.lastModified, remote.lastModified) : local.lastModified;
+    if (concurrent) {
+        // The merged item has seen both sides' edits; if it matches neither, it is a new edit here
+        const version = joinVersions(local.version, remote.version);
+        result.version = sameContent(result, remoteFields) ? version : incrementVersion(version);
+    }
+    return result as unknown as T;
+}
+
+function toSyncValue(value: unknown): SyncValue {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    return value === undefined || value === null ? null : String(value);
+}
+
+function sameOn(a: Item, b: Item, fields: string[]): boolean {
+    const aFields = a as unknown as Record<string, unknown>;
+    const bFields = b as unknown as Record<string, unknown>;
+    return fields.every(field => field === 'lastModified' || field === 'version' || isSame(aFields[field], bFields[field]));
+}
+
+// Equal apart from the bookkeeping fields
+function sameContent(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+    return isSame({ ...a, lastModified: 0, version: null }, { ...b, lastModified: 0, version: null });
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export type SyncChangeAction = 'add' | 'update' | 'delete' | 'conflict';
+
+// How syncing would change one item of the local library
+export interface SyncChange {
+    key: string;  // `<kind>:<id>`, used to pick which changes to apply
+    kind: 'folder' | 'snippet';
+    id: string;
+    name: string;
+    action: SyncChangeAction;
+    fields: string[];  // Changed (or conflicting) fields of updated items
+    before?: Item;  // The local version, if there is one
+    after?: Item;  // The version after syncing, if it is kept
+}
+
+export interface SyncPlan extends LibraryData {
+    changes: SyncChange[];
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Works out the library a sync would produce and what changes compared to the
+ * local one. With `selected`, only the changes with those keys are applied;
+ * the others keep the local version.
+ */
+export function planSync(base: LibraryData | null, local: LibraryData, remote: LibraryData, selected?: Set<string>): SyncPlan {
+    const result = mergeLibraries(base, local, remote);
+    const data: LibraryData = { folders: result.folders, snippets: result.snippets, tombstones: [...(local.tombstones || [])] };
+    applyTombstones(data, remote.tombstones || []);
+
+    const changes = [
+        ...diffItems('folder', local.folders, data.folders, result.conflicts),
+        ...diffItems('snippet', local.snippets, data.snippets, result.conflicts)
+    ];
+    if (!selected) {
+        return { ...data, changes, conflicts: result.conflicts };
+    }
+
+    const skipped = changes.filter(change => !selected.has(change.key));
+    for (const change of skipped) {
+        const items: Item[] = change.kind === 'folder' ? data.folders : data.snippets;
+        const index = items.findIndex(item => item.id === change.id);
+        if (!change.before) {
+            items.splice(index, 1);
+        } else if (index === -1) {
+            // A skipped deletion; forget the tombstone too, or the next merge would delete it again
+            items.push(change.before);
+            removeTombstones(data, [{ id: change.id, kind: change.kind }]);
+        } else {
+            items[index] = change.before;
+        }
+    }
+
+    const skippedKeys = new Set(skipped.map(change => change.key));
+    return {
+        ...data,
+        changes: changes.filter(change => !skippedKeys.has(change.key)),
+        conflicts: result.conflicts.filter(conflict => !skippedKeys.has(`${conflict.kind}:${conflict.itemId}`))
+    };
+}
+
+function diffItems(kind: 'folder' | 'snippet', before: Item[], after: Item[], conflicts: SyncConflict[]): SyncChange[] {
+    const afterById = new Map(after.map(item => [item.id, item]));
+    const beforeIds = new Set(before.map(item => item.id));
+    const changes: SyncChange[] = [];
+    const change = (action: SyncChangeAction, item: Item, fields: string[], old?: Item, updated?: Item) => changes.push({
+        key: `${kind}:${item.id}`,
+        kind,
+        id: item.id,
+        name: item.name,
+        action,
+        fields,
+        before: old,
+        after: updated
+    });
+
+    for (const item of before) {
+        const updated = afterById.get(item.id);
+        if (!updated) {
+            change('delete', item, [], item);
+            continue;
+        }
+        const conflicting = conflicts.filter(c => c.kind === kind && c.itemId === item.id).map(c => c.field as string);
+        const changed = changedFields(item, updated);
+        if (conflicting.length > 0) {
+            change('conflict', updated, [...conflicting, ...changed.filter(field => !conflicting.includes(field))], item, updated);
+        } else if (changed.length > 0) {
+            change('update', updated, changed, item, updated);
+        }
+    }
+    for (const item of after) {
+        if (!beforeIds.has(item.id)) {
+            change('add', item, [], undefined, item);
+        }
+    }
+    return changes;
+}
+
+function changedFields(a: Item, b: Item): string[] {
+    const aFields = a as unknown as Record<string, unknown>;
+    const bFields = b as unknown as Record<string, unknown>;
+    return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+        .filter(field => field !== 'lastModified' && field !== 'version' && !isSame(aFields[field], bFields[field]));
+}
+
+const CHANGE_VERBS: { [action in SyncChangeAction]: string } = {
+    add: 'Add',
+    update: 'Update',
+    delete: 'Delete',
+    conflict: 'Update'
+};
+
+// Describes the difference between two versions of the library like a commit
+// message: a summary line, then one line per changed item
+export function describeChanges(before: LibraryData, after: LibraryData): string | undefined {
+    const changes = [
+        ...diffItems('folder', before.folders, after.folders, []),
+        ...diffItems('snippet', before.snippets, after.snippets, [])
+    ];
+    const describe = (change: SyncChange) => `${CHANGE_VERBS[change.action]} ${change.kind} "${change.name}"` +
+        (change.action === 'update' ? ` (${change.fields.join(', ')})` : '');
+
+    if (changes.length === 0) {
+        return undefined;
+    }
+    if (changes.length === 1) {
+        return describe(changes[0]);
+    }
+
+    const counts = new Map<string, number>();
+    changes.forEach(change => {
+        const group = `${CHANGE_VERBS[change.action]}:${change.kind}`;
+        counts.set(group, (counts.get(group) || 0) + 1);
+    });
+    const summary = Array.from(counts, ([group, count], index) => {
+        const [verb, kind] = group.split(':');
+        return `${index === 0 ? verb : verb.toLowerCase()} ${count} ${kind}${count === 1 ? '' : 's'}`;
+    }).join(', ');
+    return `${summary}\n\n${changes.map(change => `- ${describe(change)}`).join('\n')}`;
+}
+
+/**
+ * Like `planSync`, but leaves out the folders this device or the writer of the
+ * remote copy keeps off the sync target, with everything in them. Those keep
+ * their local version; missing from the other side doesn't mean deleted.
+ */
+function planSelectiveSync(base: LibraryData | null, local: LibraryData, remote: LibraryData, selected?: Set<string>): SyncPlan {
+    const excluded = getSyncExclusions(local, remote);
+    if (excluded.folders.size === 0 && excluded.snippets.size === 0) {
+        return planSync(base, local, remote, selected);
+    }
+
+    const plan = planSync(base && excluded.narrow(base), excluded.narrow(local), excluded.narrow(remote), selected);
+    const keptFolders = local.folders.filter(f => excluded.folders.has(f.id));
+    const keptSnippets = local.snippets.filter(s => excluded.snippets.has(s.id));
+    const data: LibraryData = {
+        folders: [...plan.folders, ...keptFolders],
+        snippets: [...plan.snippets, ...keptSnippets],
+        tombstones: [
+            ...(plan.tombstones || []),
+            ...(local.tombstones || []).filter(t => (t.kind === 'folder' ? excluded.folders : excluded.snippets).has(t.id))
+        ]
+    };
+
+    // Folders that hold kept items stay too, or those items would be orphaned
+    const present = new Set(data.folders.map(f => f.id));
+    const restored = new Set<string>();
+    for (const item of [...keptFolders, ...keptSnippets]) {
+        let parentId: string | null = 'folderId' in item ? item.folderId : item.parentId;
+        while (parentId && !present.has(parentId)) {
+            const parent = local.folders.find(f => f.id === parentId);
+            if (!parent) {
+                break;
+            }
+            data.folders.push(parent);
+            present.add(parent.id);
+            restored.add(parent.id);
+            parentId = parent.parentId;
+        }
+    }
+    removeTombstones(data, Array.from(restored, id => ({ id, kind: 'folder' as const })));
+
+    return {
+        ...data,
+        changes: plan.changes.filter(change => !(change.kind === 'folder' && restored.has(change.id))),
+        conflicts: plan.conflicts
+    };
+}
+
+// Shows what syncing with a remote copy would do, without changing anything
+export async function previewSync(store: SnippetStore, remote: LibraryData): Promise<SyncPlan> {
+    const state = await store.getSyncState();
+    return planSelectiveSync(state.base, await store.getAllData(), remote);
+}
+
+/**
+ * Merges a remote copy of the library into a store and remembers the result
+ * as the base for the next sync. Pass the keys of the previewed changes to
+ * apply only those. Returns the conflicts found by this sync; they are also
+ * kept with the store until they are resolved.
+ */
+export async function syncLibrary(store: SnippetStore, remote: LibraryData, selected?: Set<string>): Promise<SyncConflict[]> {
+    const state = await store.getSyncState();
+    if (planSelectiveSync(state.base, await store.getAllData(), remote, selected).changes.length > 0) {
+        await store.takeSnapshot('Before syncing');
+    }
+
+    const { conflicts, base } = await store.transaction(draft => {
+        const plan = planSelectiveSync(state.base, draft, remote, selected);
+        draft.folders = plan.folders;
+        draft.snippets = plan.snippets;
+        draft.tombstones = plan.tombstones;
+        return {
+            conflicts: plan.conflicts,
+            base: JSON.parse(JSON.stringify({ folders: draft.folders, snippets: draft.snippets })) as LibraryData
+        };
+    });
+
+    // A new conflict on the same field replaces the old one
+    const replaced = (c: SyncConflict) => conflicts.some(n => n.itemId === c.itemId && n.field === c.field);
+    await store.setSyncState({
+        base,
+        conflicts: [...state.conflicts.filter(c => !replaced(c)), ...conflicts]
+    });
+    return conflicts;
+}
+
+/**
+ * Settles a conflict by writing the chosen value to the item. Conflicts for
+ * items that no longer exist are simply dropped.
+ */
+export async function resolveSyncConflict(store: SnippetStore, conflictId: string, value: SyncValue): Promise<void> {
+    const state = await store.getSyncState();
+    const conflict = state.conflicts.find(c => c.id === conflictId);
+    if (!conflict) {
+        throw new Error('Conflict not found');
+    }
+
+    await store.transaction(draft => {
+        const items: Item[] = conflict.kind === 'folder' ? draft.folders : draft.snippets;
+        const item = items.find(i => i.id === conflict.itemId) as unknown as Record<string, unknown> | undefined;
+        if (item && !isSame(item[conflict.field], value)) {
+            item[conflict.field] = value;
+            item.lastModified = Date.now();
+        }
+    });
+
+    const current = await store.getSyncState();
+    await store.setSyncState({ ...current, conflicts: current.conflicts.filter(c => c.id !== conflictId) });
+}
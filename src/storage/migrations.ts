@@ -0,0 +1,94 @@
+import { Folder, Snippet } from './types';
+
+// Bump this together with a new entry in `migrations` whenever the shape of
+// folders.json / snippets.json changes.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Contents of store.json, written next to folders.json and snippets.json.
+// Stores created before the header existed are treated as version 1.
+export interface StoreHeader {
+    schemaVersion: number;
+    updatedAt: string;
+}
+
+export interface MigrationData {
+    folders: any[];
+    snippets: any[];
+}
+
+interface Migration {
+    version: number;  // Schema version the store is at after this step
+    description: string;
+    migrate(data: MigrationData): MigrationData;
+}
+
+// Ordered list of migration steps, each one taking the store from
+// `version - 1` to `version`.
+const migrations: Migration[] = [
+    {
+        version: 2,
+        description: 'Persist folder order, folder type, snippet tags and pinned flags',
+        migrate(data) {
+            const folders: Folder[] = data.folders.map((folder: any) => ({
+                ...folder,
+                parentId: folder.parentId ?? null,
+                type: folder.type === 'secondary' ? 'secondary' : 'primary',
+                lastModified: folder.lastModified || Date.now()
+            }));
+
+            // Number siblings in their current display order
+            const byParent = new Map<string | null, Folder[]>();
+            folders.forEach(folder => {
+                const siblings = byParent.get(folder.parentId) || [];
+                siblings.push(folder);
+                byParent.set(folder.parentId, siblings);
+            });
+            byParent.forEach(siblings => {
+                siblings
+                    .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER))
+                    .forEach((folder, index) => {
+                        folder.order = index;
+                    });
+            });
+
+            const snippets: Snippet[] = data.snippets.map((snippet: any) => ({
+                ...snippet,
+                code: snippet.code || '',
+                language: snippet.language || 'plaintext',
+                notes: snippet.notes || '',
+                tags: Array.isArray(snippet.tags) ? snippet.tags : [],
+                lastModified: snippet.lastModified || Date.now(),
+                pinned: snippet.pinned ?? false
+            }));
+
+            return { folders, snippets };
+        }
+    }
+];
+
+export function createStoreHeader(): StoreHeader {
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        updatedAt: new Date().toISOString()
+    };
+}
+
+// Throws when data was written by a newer version of the extension, since
+// opening it here could silently drop fields that version relies on.
+export function assertSupportedSchema(schemaVersion: number | undefined, source: string): void {
+    if (schemaVersion !== undefined && schemaVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(
+            `${source} uses schema version ${schemaVersion}, but this version of VS Snippets only supports up to ${CURRENT_SCHEMA_VERSION}. Please update the extension.`
+        );
+    }
+}
+
+export function migrate(data: MigrationData, fromVersion: number, onStep?: (version: number, description: string) => void): MigrationData {
+    return migrations
+        .filter(migration => migration.version > fromVersion)
+        .sort((a, b) => a.version - b.version)
+        .reduce((current, migration) => {
+            onStep?.(migration.version, migration.description);
+            return migration.migrate(current);
+        }, data);
+}
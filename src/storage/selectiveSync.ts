@@ -0,0 +1,86 @@
+import { Folder, LibraryData } from './types';
+
+// The folder that keeps a folder off the sync target: the folder itself or
+// the closest one above it marked local-only
+export function getLocalOnlyFolder(folders: Folder[], folderId: string | null): Folder | undefined {
+    const seen = new Set<string>();
+    let current = folders.find(f => f.id === folderId);
+    while (current && !seen.has(current.id)) {
+        if (current.localOnly) {
+            return current;
+        }
+        seen.add(current.id);
+        current = folders.find(f => f.id === current!.parentId);
+    }
+    return undefined;
+}
+
+// The given folders and every folder below them, following the parent links
+// of all the given copies of the library
+function expandFolders(roots: Iterable<string>, ...folderLists: Folder[][]): Set<string> {
+    const children = new Map<string, string[]>();
+    folderLists.forEach(folders => folders.forEach(folder => {
+        if (folder.parentId) {
+            children.set(folder.parentId, [...(children.get(folder.parentId) || []), folder.id]);
+        }
+    }));
+
+    const expanded = new Set(roots);
+    const pending = Array.from(expanded);
+    while (pending.length > 0) {
+        for (const child of children.get(pending.pop()!) || []) {
+            if (!expanded.has(child)) {
+                expanded.add(child);
+                pending.push(child);
+            }
+        }
+    }
+    return expanded;
+}
+
+/**
+ * The part of the library that goes to the sync target: everything except the
+ * local-only folders and their contents. The IDs of the left-out folders go
+ * along, so other devices don't take their absence for a deletion.
+ */
+export function selectSyncedData(data: LibraryData): LibraryData {
+    const excluded = expandFolders(data.folders.filter(f => f.localOnly).map(f => f.id), data.folders);
+    if (excluded.size === 0) {
+        return data;
+    }
+    const excludedSnippets = new Set(data.snippets.filter(s => excluded.has(s.folderId)).map(s => s.id));
+    return {
+        folders: data.folders.filter(f => !excluded.has(f.id)),
+        snippets: data.snippets.filter(s => !excludedSnippets.has(s.id)),
+        tombstones: (data.tombstones || []).filter(t => !(t.kind === 'folder' ? excluded : excludedSnippets).has(t.id)),
+        localOnlyFolders: Array.from(excluded)
+    };
+}
+
+/**
+ * What a sync between the local library and a synced copy must leave alone:
+ * the folders either side keeps to itself and everything in them. A snippet
+ * that is in such a folder on either side is left alone too. `narrow` drops
+ * all of it from a library.
+ */
+export function getSyncExclusions(local: LibraryData, remote: LibraryData): {
+    folders: Set<string>;
+    snippets: Set<string>;
+    narrow: (data: LibraryData) => LibraryData;
+} {
+    const roots = [
+        ...local.folders.filter(f => f.localOnly).map(f => f.id),
+        ...(remote.localOnlyFolders || [])
+    ];
+    const folders = expandFolders(roots, local.folders, remote.folders);
+    const snippets = new Set([...local.snippets, ...remote.snippets]
+        .filter(s => folders.has(s.folderId))
+        .map(s => s.id));
+
+    const narrow = (data: LibraryData): LibraryData => ({
+        folders: data.folders.filter(f => !folders.has(f.id)),
+        snippets: data.snippets.filter(s => !snippets.has(s.id)),
+        tombstones: (data.tombstones || []).filter(t => !(t.kind === 'folder' ? folders : snippets).has(t.id))
+    });
+    return { folders, snippets, narrow };
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnippetStore } from './SnippetStore';
+import { LibraryData } from './types';
+import { decodeLibrary, encodeLibrary } from './interchange';
+import { planSync, SyncPlan } from './merge';
+import { addTombstones, removeTombstones } from './tombstones';
+
+// How many of the newest hourly, daily and weekly snapshots are kept
+export interface SnapshotRetention {
+    hourly: number;
+    daily: number;
+    weekly: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = { hourly: 24, daily: 7, weekly: 4 };
+
+// Routine snapshots are taken at most this often
+export const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Every snapshot from the last hour is kept (up to this many), so one taken
+// right before a destructive operation isn't rotated out straight away
+const MAX_RECENT_SNAPSHOTS = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface SnapshotInfo {
+    id: string;  // File name
+    timestamp: number;
+    reason: string;
+    folderCount: number;
+    snippetCount: number;
+}
+
+/**
+ * Timestamped copies of a library in one directory, thinned out to hourly,
+ * daily and weekly snapshots as they age.
+ */
+export class Snapshots {
+    constructor(private dir: string) { }
+
+    async take(data: LibraryData, reason: string, retention: SnapshotRetention): Promise<void> {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        const timestamp = Date.now();
+        const id = `snapshot-${new Date(timestamp).toISOString().replace(/[:.]/g, '-')}.json`;
+        const content = { ...encodeLibrary(data), timestamp: new Date(timestamp).toISOString(), reason };
+
+        const tmpPath = path.join(this.dir, `${id}.tmp`);
+        await fs.promises.writeFile(tmpPath, JSON.stringify(content, null, 2));
+        await fs.promises.rename(tmpPath, path.join(this.dir, id));
+        await this.prune(retention, timestamp);
+    }
+
+    // Newest first
+    async list(): Promise<SnapshotInfo[]> {
+        const snapshots: SnapshotInfo[] = [];
+        for (const id of await this.listFiles()) {
+            try {
+                const content = JSON.parse(await fs.promises.readFile(path.join(this.dir, id), 'utf8'));
+                const data = decodeLibrary(content, 'The snapshot');
+                snapshots.push({
+                    id,
+                    timestamp: Date.parse(content.timestamp) || 0,
+                    reason: typeof content.reason === 'string' ? content.reason : '',
+                    folderCount: data.folders.length,
+                    snippetCount: data.snippets.length
+                });
+            } catch {
+                // Skip unreadable snapshots
+            }
+        }
+        return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async read(id: string): Promise<LibraryData> {
+        const content = JSON.parse(await fs.promises.readFile(path.join(this.dir, path.basename(id)), 'utf8'));
+        return decodeLibrary(content, 'The snapshot');
+    }
+
+    // Rewrites every snapshot, keeping when and why it was taken
+    async rewrite(update: (data: LibraryData) => LibraryData): Promise<void> {
+        for (const id of await this.listFiles()) {
+            const filePath = path.join(this.dir, id);
+            let content: any;
+            let data: LibraryData;
+            try {
+                content = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+                data = update(decodeLibrary(content, 'The snapshot'));
+            } catch {
+                continue;  // Unreadable snapshots aren't listed either
+            }
+            const rewritten = { ...encodeLibrary(data), timestamp: content.timestamp, reason: content.reason };
+
+            await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(rewritten, null, 2));
+            await fs.promises.rename(`${filePath}.tmp`, filePath);
+        }
+    }
+
+    async getLatestTimestamp(): Promise<number | undefined> {
+        const latest = (await this.listFiles()).sort().pop();
+        return latest ? parseTimestamp(latest) : undefined;
+    }
+
+    private async prune(retention: SnapshotRetention, now: number): Promise<void> {
+        const snapshots = (await this.listFiles()).map(id => ({ id, timestamp: parseTimestamp(id) }));
+        const keep = selectSnapshotsToKeep(snapshots, retention, now);
+        for (const snapshot of snapshots) {
+            if (!keep.has(snapshot.id)) {
+                await fs.promises.unlink(path.join(this.dir, snapshot.id)).catch(() => undefined);
+            }
+        }
+    }
+
+    private async listFiles(): Promise<string[]> {
+        try {
+            return (await fs.promises.readdir(this.dir)).filter(name => /^snapshot-.*\.json$/.test(name));
+        } catch {
+            return [];
+        }
+    }
+}
+
+// snapshot-2024-05-01T10-20-30-000Z.json
+function parseTimestamp(id: string): number {
+    const match = /^snapshot-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/.exec(id);
+    return match ? Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`) : 0;
+}
+
+// Keeps the newest snapshot of each of the last `hourly` hours, `daily` days
+// and `weekly` weeks, plus everything from the last hour
+export function selectSnapshotsToKeep(snapshots: { id: string; timestamp: number }[], retention: SnapshotRetention, now: number = Date.now()): Set<string> {
+    const keep = new Set<string>();
+    const newestFirst = [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+
+    newestFirst
+        .filter(s => now - s.timestamp < HOUR_MS)
+        .slice(0, MAX_RECENT_SNAPSHOTS)
+        .forEach(s => keep.add(s.id));
+
+    const tiers: [number, number][] = [[HOUR_MS, retention.hourly], [DAY_MS, retention.daily], [WEEK_MS, retention.weekly]];
+    for (const [period, count] of tiers) {
+        const buckets = new Set<number>();
+        for (const snapshot of newestFirst) {
+            const bucket = Math.floor(snapshot.timestamp / period);
+            if (Math.floor(now / period) - bucket >= count) {
+                break;
+            }
+            if (!buckets.has(bucket)) {
+                buckets.add(bucket);
+                keep.add(snapshot.id);
+            }
+        }
+    }
+    return keep;
+}
+
+/**
+ * Works out what restoring a snapshot would change, as a sync plan that
+ * turns the current library into the snapshot.
+ */
+export function planRestore(current: LibraryData, snapshot: LibraryData, selected?: Set<string>): SyncPlan {
+    // With the current library as the base, every difference counts as a change in the snapshot
+    const withoutTombstones = (data: LibraryData) => ({ folders: data.folders, snippets: data.snippets, tombstones: [] });
+    return planSync(withoutTombstones(current), withoutTombstones(current), withoutTombstones(snapshot), selected);
+}
+
+/**
+ * Restores a snapshot (or the selected changes from it). Restored items count
+ * as changed now, and items the snapshot doesn't have as deleted now, so the
+ * next sync doesn't undo the restore.
+ */
+export async function restoreSnapshot(store: SnippetStore, snapshot: LibraryData, selected?: Set<string>): Promise<void> {
+    await store.takeSnapshot('Before restoring a snapshot');
+    await store.transaction(draft => {
+        const plan = planRestore(draft, snapshot, selected);
+        const now = Date.now();
+        const changed = new Set(plan.changes.filter(c => c.action !== 'delete').map(c => c.key));
+        const stamp = <T extends { id: string; lastModified: number }>(kind: string, item: T): T =>
+            changed.has(`${kind}:${item.id}`) ? { ...item, lastModified: now } : item;
+
+        draft.folders = plan.folders.map(folder => stamp('folder', folder));
+        draft.snippets = plan.snippets.map(snippet => stamp('snippet', snippet));
+        removeTombstones(draft, plan.changes.filter(c => c.action !== 'delete'));
+        addTombstones(draft, plan.changes.filter(c => c.action === 'delete'), now);
+    });
+}
@@ -0,0 +1,73 @@
+import { LibraryData, Tombstone, VersionVector } from './types';
+import { compareVersions, joinVersions } from './versions';
+
+// Tombstones are dropped after this long; a copy of the library that hasn't
+// been merged for longer than this can bring deleted items back
+export const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function addTombstones(data: LibraryData, items: { id: string; kind: Tombstone['kind'] }[], deletedAt: number = Date.now()): void {
+    const keys = new Set(items.map(item => `${item.kind}:${item.id}`));
+    data.tombstones = [
+        ...(data.tombstones || []).filter(t => !keys.has(`${t.kind}:${t.id}`)),
+        ...items.map(item => ({ id: item.id, kind: item.kind, deletedAt }))
+    ];
+}
+
+export function removeTombstones(data: LibraryData, items: { id: string; kind: Tombstone['kind'] }[]): void {
+    const keys = new Set(items.map(item => `${item.kind}:${item.id}`));
+    data.tombstones = (data.tombstones || []).filter(t => !keys.has(`${t.kind}:${t.id}`));
+}
+
+// Merges incoming tombstones into the library and removes every deleted item
+// that wasn't edited without seeing the deletion. Items edited since (by
+// version vector, or by timestamp for items without one) win, and their
+// tombstones are dropped.
+export function applyTombstones(data: LibraryData, incoming: Tombstone[] = []): void {
+    const latest = new Map<string, Tombstone>();
+    [...(data.tombstones || []), ...incoming].forEach(tombstone => {
+        if (!isTombstone(tombstone)) {
+            return;
+        }
+        const key = `${tombstone.kind}:${tombstone.id}`;
+        const existing = latest.get(key);
+        if (!existing) {
+            latest.set(key, tombstone);
+        } else if (tombstone.version || existing.version) {
+            // The same item deleted on two devices
+            const newer = tombstone.deletedAt > existing.deletedAt ? tombstone : existing;
+            latest.set(key, { ...newer, version: joinVersions(existing.version, tombstone.version) });
+        } else if (tombstone.deletedAt > existing.deletedAt) {
+            latest.set(key, tombstone);
+        }
+    });
+
+    const keep = (kind: Tombstone['kind']) => (item: { id: string; lastModified: number; version?: VersionVector }) => {
+        const key = `${kind}:${item.id}`;
+        const tombstone = latest.get(key);
+        if (!tombstone) {
+            return true;
+        }
+        const deleted = tombstone.version && item.version
+            ? ['equal', 'before'].includes(compareVersions(item.version, tombstone.version))
+            : (item.lastModified || 0) <= tombstone.deletedAt;
+        if (deleted) {
+            return false;
+        }
+        latest.delete(key);
+        return true;
+    };
+
+    data.folders = data.folders.filter(keep('folder'));
+    data.snippets = data.snippets.filter(keep('snippet'));
+    data.tombstones = Array.from(latest.values());
+}
+
+export function pruneTombstones(tombstones: Tombstone[], now: number = Date.now()): Tombstone[] {
+    return tombstones.filter(t => now - t.deletedAt < TOMBSTONE_RETENTION_MS);
+}
+
+function isTombstone(value: any): value is Tombstone {
+    return value && typeof value.id === 'string' &&
+        (value.kind === 'folder' || value.kind === 'snippet') &&
+        typeof value.deletedAt === 'number';
+}
@@ -0,0 +1,91 @@
+import { SnippetStore } from './SnippetStore';
+import { Snippet } from './types';
+import { getFolderSubtree } from './BaseStorage';
+import { addTombstones } from './tombstones';
+import { createId } from './ids';
+
+export type TransferMode = 'move' | 'copy';
+
+/**
+ * Moves or copies a snippet, or a folder with all of its subfolders and
+ * snippets, from one store into another (e.g. from the global library into a
+ * project library). Moves keep IDs; copies get fresh ones.
+ */
+export async function transferItem(
+    source: SnippetStore,
+    target: SnippetStore,
+    item: { type: 'folder' | 'snippet'; id: string },
+    targetFolderId: string | null,
+    mode: TransferMode
+): Promise<void> {
+    const data = await source.getAllData();
+    const stamp = Date.now();
+    const newId = (id: string) => mode === 'copy' ? createId() : id;
+
+    if (item.type === 'snippet') {
+        const snippet = data.snippets.find(s => s.id === item.id);
+        if (!snippet) {
+            throw new Error('Snippet not found');
+        }
+        if (!targetFolderId) {
+            throw new Error('Snippets must be placed in a folder');
+        }
+
+        const transferred: Snippet = { ...snippet, id: newId(snippet.id), folderId: targetFolderId, lastModified: stamp };
+        await target.transaction(draft => {
+            draft.snippets = [...draft.snippets.filter(s => s.id !== transferred.id), transferred];
+        });
+        if (mode === 'move') {
+            // Moved, not deleted, so it doesn't go to the Trash
+            await source.transaction(draft => {
+                draft.snippets = draft.snippets.filter(s => s.id !== snippet.id);
+                addTombstones(draft, [{ id: snippet.id, kind: 'snippet' }]);
+            });
+        }
+        return;
+    }
+
+    // The folder and all of its descendants
+    const subtree = getFolderSubtree(data.folders, item.id);
+    if (subtree.length === 0) {
+        throw new Error('Folder not found');
+    }
+    const root = subtree[0];
+    const folderIds = new Map(subtree.map(folder => [folder.id, newId(folder.id)]));
+    const snippets = data.snippets.filter(snippet => folderIds.has(snippet.folderId));
+
+    await target.transaction(draft => {
+        const siblings = draft.folders.filter(f => f.parentId === targetFolderId);
+        const maxOrder = Math.max(...siblings.map(f => f.order || 0), -1);
+
+        const folders = subtree.map(folder => ({
+            ...folder,
+            id: folderIds.get(folder.id)!,
+            parentId: folder.id === root.id ? targetFolderId : folderIds.get(folder.parentId!)!,
+            order: folder.id === root.id ? maxOrder + 1 : folder.order,
+            lastModified: stamp
+        }));
+        const movedSnippets = snippets.map(snippet => ({
+            ...snippet,
+            id: newId(snippet.id),
+            folderId: folderIds.get(snippet.folderId)!,
+            lastModified: stamp
+        }));
+
+        const folderIdSet = new Set(folders.map(f => f.id));
+        const snippetIdSet = new Set(movedSnippets.map(s => s.id));
+        draft.folders = [...draft.folders.filter(f => !folderIdSet.has(f.id)), ...folders];
+        draft.snippets = [...draft.snippets.filter(s => !snippetIdSet.has(s.id)), ...movedSnippets];
+    });
+
+    if (mode === 'move') {
+        await source.transaction(draft => {
+            draft.folders = draft.folders.filter(f => !folderIds.has(f.id));
+            draft.snippets = draft.snippets.filter(s => !folderIds.has(s.folderId));
+            addTombstones(draft, [
+                ...subtree.map(f => ({ id: f.id, kind: 'folder' as const })),
+                ...snippets.map(s => ({ id: s.id, kind: 'snippet' as const }))
+            ]);
+        });
+    }
+}
@@ -1,3 +1,9 @@
+// Edits made to an item per device ID, so sync can tell which of two copies
+// has seen the other's changes without trusting the devices' clocks
+export interface VersionVector {
+    [deviceId: string]: number;
+}
+
 export interface Folder {
     id: string;
     name: string;
@@ -5,6 +11,9 @@ export interface Folder {
     type: 'primary' | 'secondary';  // To distinguish between primary and secondary folders
     lastModified: number;  // Unix timestamp in milliseconds
     order?: number;
+    encrypted?: boolean;  // New snippets in this folder are encrypted
+    localOnly?: boolean;  // Kept off the sync target, with everything inside it
+    version?: VersionVector;
 }
 
 export interface Snippet {
@@ -17,4 +26,82 @@ export interface Snippet {
     tags?: string[];
     lastModified: number;
     pinned?: boolean;
-} 
\ No newline at end of file
+    encrypted?: boolean;  // `code` and `notes` hold ciphertext
+    prefix?: string[];  // IntelliSense triggers, for snippets from VS Code snippet files
+    version?: VersionVector;
+}
+
+// Records that an item was deleted, so merging an older copy of the library
+// (a backup, an import) doesn't bring it back
+export interface Tombstone {
+    id: string;
+    kind: 'folder' | 'snippet';
+    deletedAt: number;
+    version?: VersionVector;  // The version of the item that was deleted
+}
+
+export interface LibraryData {
+    folders: Folder[];
+    snippets: Snippet[];
+    tombstones?: Tombstone[];
+    localOnlyFolders?: string[];  // Of a synced copy: IDs of the folders its writer keeps to itself
+}
+
+export interface SnippetUpdate {
+    id: string;
+    code?: string;
+    notes?: string;
+    language?: string;
+    tags?: string[];
+    folderId?: string;
+}
+
+// A saved earlier version of a snippet's content
+export interface SnippetRevision {
+    id: string;
+    snippetId: string;
+    timestamp: number;  // When this version was replaced
+    code: string;
+    notes: string;
+    language: string;
+    tags: string[];
+    encrypted?: boolean;
+}
+
+// A deleted snippet or folder (with everything inside it), kept until it is
+// restored or purged
+export interface TrashEntry {
+    id: string;
+    kind: 'folder' | 'snippet';
+    name: string;
+    deletedAt: number;
+    path: { id: string; name: string }[];  // The folders it was in, outermost first
+    folders: Folder[];
+    snippets: Snippet[];
+}
+
+export type SyncConflictField = 'name' | 'folderId' | 'parentId' | 'code' | 'notes' | 'tags' | 'language';
+
+export type SyncValue = string | string[] | null;
+
+// A field that was changed differently on this device and in the synced copy
+// since the last sync. The local value is kept until the user picks one.
+export interface SyncConflict {
+    id: string;
+    kind: 'folder' | 'snippet';
+    itemId: string;
+    name: string;
+    field: SyncConflictField;
+    base: SyncValue;
+    local: SyncValue;
+    remote: SyncValue;
+    encrypted?: boolean;  // The values are ciphertext
+    detectedAt: number;
+}
+
+// Per-device sync bookkeeping: the library as of the last successful sync,
+// used as the base of the next three-way merge, and unresolved conflicts
+export interface SyncState {
+    base: LibraryData | null;
+    conflicts: SyncConflict[];
+}
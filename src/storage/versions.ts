@@ -0,0 +1,96 @@
+import { createId } from './ids';
+import { Folder, LibraryData, Snippet, Tombstone, VersionVector } from './types';
+
+// How two versions of an item relate
+export type VersionOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+// Set from the extension's global state on activation, so it stays the same
+// for this installation
+let deviceId = createId();
+
+export function getDeviceId(): string {
+    return deviceId;
+}
+
+export function setDeviceId(id: string): void {
+    deviceId = id;
+}
+
+// A missing version counts as no edits at all
+export function compareVersions(a: VersionVector | undefined, b: VersionVector | undefined): VersionOrder {
+    let aNewer = false;
+    let bNewer = false;
+    for (const device of new Set([...Object.keys(a || {}), ...Object.keys(b || {})])) {
+        const aCount = a?.[device] || 0;
+        const bCount = b?.[device] || 0;
+        aNewer = aNewer || aCount > bCount;
+        bNewer = bNewer || bCount > aCount;
+    }
+    if (aNewer && bNewer) {
+        return 'concurrent';
+    }
+    return aNewer ? 'after' : bNewer ? 'before' : 'equal';
+}
+
+// The version that has seen every edit either of the two has seen
+export function joinVersions(a: VersionVector | undefined, b: VersionVector | undefined): VersionVector {
+    const joined: VersionVector = { ...a };
+    Object.entries(b || {}).forEach(([device, count]) => {
+        joined[device] = Math.max(joined[device] || 0, count);
+    });
+    return joined;
+}
+
+// Records one more edit made on this device
+export function incrementVersion(version: VersionVector | undefined): VersionVector {
+    return { ...version, [deviceId]: (version?.[deviceId] || 0) + 1 };
+}
+
+/**
+ * Gives every item a transaction created or changed a new version from this
+ * device, unless it already carries one that supersedes its old version
+ * (e.g. because it was taken from a synced copy). Deleted items that come
+ * back count as edited, so their tombstones elsewhere don't delete them again,
+ * and new tombstones remember the version that was deleted.
+ */
+export function stampVersions(before: LibraryData, after: LibraryData): void {
+    const tombstones = before.tombstones || [];
+    after.folders = stampItems(before.folders, after.folders, tombstones.filter(t => t.kind === 'folder'));
+    after.snippets = stampItems(before.snippets, after.snippets, tombstones.filter(t => t.kind === 'snippet'));
+
+    const previous = new Map<string, Folder | Snippet>([
+        ...before.folders.map(folder => [`folder:${folder.id}`, folder] as [string, Folder]),
+        ...before.snippets.map(snippet => [`snippet:${snippet.id}`, snippet] as [string, Snippet])
+    ]);
+    after.tombstones = after.tombstones?.map(tombstone => {
+        const item = previous.get(`${tombstone.kind}:${tombstone.id}`);
+        return !tombstone.version && item?.version ? { ...tombstone, version: item.version } : tombstone;
+    });
+}
+
+function stampItems<T extends Folder | Snippet>(before: T[], after: T[], tombstones: Tombstone[]): T[] {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const deleted = new Map(tombstones.map(tombstone => [tombstone.id, tombstone]));
+    return after.map(item => {
+        const old = beforeById.get(item.id);
+        const tombstone = deleted.get(item.id);
+        if (!old && !tombstone) {
+            return item.version ? item : { ...item, version: incrementVersion(undefined) };
+        }
+        if (old && JSON.stringify(withoutVersion(old)) === JSON.stringify(withoutVersion(item))) {
+            return item;
+        }
+
+        // Changed, or restored after being deleted
+        const previous = old ? old.version : tombstone!.version;
+        if (compareVersions(item.version, previous) === 'after') {
+            return item;
+        }
+        return { ...item, version: incrementVersion(joinVersions(previous, item.version)) };
+    });
+}
+
+function withoutVersion(item: Folder | Snippet): Folder | Snippet {
+    const { version, ...rest } = item;
+    return rest;
+}
@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as vscode from 'vscode';
+import { getHttpLibraryUrl, HttpCredentials, HttpSync } from '../storage/HttpSync';
+import { DEFAULT_LIBRARY } from '../storage/libraries';
+import { LocalStorage } from '../storage/LocalStorage';
+import { LibraryData } from '../storage/types';
+import { EventEmitter, setConfiguration } from './vscode';
+
+interface StoredFile {
+    body: string;
+    etag: string;
+    lastModified: string;
+}
+
+/**
+ * A stand-in for a WebDAV server: PUT needs the folder to exist (409
+ * otherwise, until MKCOL creates it), honours If-Match, If-None-Match and
+ * If-Unmodified-Since, and doesn't send the new ETag with its answer, like
+ * some real servers. `sendEtags` and `sendLastModified` turn those headers off.
+ */
+class StandInServer {
+    readonly files = new Map<string, StoredFile>();
+    readonly folders = new Set<string>();
+    readonly requests: string[] = [];
+    sendEtags = true;
+    sendLastModified = false;
+    credentials = 'Basic ' + Buffer.from(`${USER.username}:${USER.password}`).toString('base64');
+    private server = http.createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', chunk => chunks.push(chunk));
+        request.on('end', () => this.handle(request, response, Buffer.concat(chunks).toString('utf8')));
+    });
+    private nextEtag = 1;
+
+    async start(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    async stop(): Promise<void> {
+        await new Promise(resolve => this.server.close(resolve));
+    }
+
+    get url(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/dav/snippets.json`;
+    }
+
+    reset(): void {
+        this.files.clear();
+        this.folders.clear();
+        this.requests.length = 0;
+        this.nextEtag = 1;
+        this.sendEtags = true;
+        this.sendLastModified = false;
+    }
+
+    private getHeaders(file: StoredFile): http.OutgoingHttpHeaders {
+        return {
+            ...(this.sendEtags ? { ETag: file.etag } : {}),
+            ...(this.sendLastModified ? { 'Last-Modified': file.lastModified } : {})
+        };
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse, body: string): void {
+        const url = request.url || '';
+        const ifMatch = request.headers['if-match'];
+        const ifNoneMatch = request.headers['if-none-match'];
+        const ifUnmodifiedSince = request.headers['if-unmodified-since'];
+        this.requests.push(`${request.method} ${url}${ifMatch ? ` If-Match ${ifMatch}` : ''}${ifNoneMatch ? ` If-None-Match ${ifNoneMatch}` : ''}` +
+            `${ifUnmodifiedSince ? ` If-Unmodified-Since ${ifUnmodifiedSince}` : ''}`);
+
+        if (request.headers.authorization !== this.credentials) {
+            response.writeHead(401).end();
+            return;
+        }
+        const file = this.files.get(url);
+        switch (request.method) {
+            case 'MKCOL':
+                this.folders.add(url);
+                response.writeHead(201).end();
+                return;
+            case 'GET':
+            case 'HEAD':
+                if (!file) {
+                    response.writeHead(404).end();
+                } else if (ifNoneMatch === file.etag) {
+                    response.writeHead(304, this.getHeaders(file)).end();
+                } else {
+                    response.writeHead(200, { ...this.getHeaders(file), 'Content-Type': 'application/json' }).end(request.method === 'GET' ? file.body : undefined);
+                }
+                return;
+            case 'PUT':
+                if (!this.folders.has(url.slice(0, url.lastIndexOf('/') + 1))) {
+                    response.writeHead(409).end();
+                } else if ((ifMatch && ifMatch !== file?.etag) || (ifNoneMatch === '*' && file) ||
+                    (ifUnmodifiedSince && ifUnmodifiedSince !== file?.lastModified)) {
+                    response.writeHead(412).end();
+                } else {
+                    // Each version is a second newer, as Last-Modified only has seconds
+                    const version = this.nextEtag++;
+                    this.files.set(url, { body, etag: `"${version}"`, lastModified: new Date(Date.UTC(2024, 0, 1) + version * 1000).toUTCString() });
+                    response.writeHead(file ? 204 : 201).end();
+                }
+                return;
+            default:
+                response.writeHead(405).end();
+        }
+    }
+}
+
+const USER: HttpCredentials = { username: 'user', password: 'secret' };
+
+function createSecrets(credentials: HttpCredentials | undefined): vscode.SecretStorage {
+    return {
+        get: async () => credentials && JSON.stringify(credentials),
+        store: async () => undefined,
+        delete: async () => undefined,
+        onDidChange: new EventEmitter<vscode.SecretStorageChangeEvent>().event
+    };
+}
+
+function createLibrary(code: string): LibraryData {
+    return {
+        folders: [{ id: 'f', name: 'Shell', parentId: null, type: 'primary', lastModified: 1 }],
+        snippets: [{ id: 's', name: 'List', folderId: 'f', code, language: 'shell', notes: '', tags: [], pinned: false, lastModified: 2 }],
+        tombstones: []
+    };
+}
+
+suite('HttpSync', () => {
+    const server = new StandInServer();
+    const store = { onDidWrite: new EventEmitter<LibraryData>().event } as unknown as LocalStorage;
+    const syncs: HttpSync[] = [];
+    const createSync = (credentials: HttpCredentials | undefined = USER) => {
+        const sync = new HttpSync(server.url, createSecrets(credentials), store);
+        syncs.push(sync);
+        return sync;
+    };
+
+    suiteSetup(() => server.start());
+    suiteTeardown(() => server.stop());
+    setup(() => server.reset());
+    teardown(() => syncs.splice(0).forEach(sync => sync.dispose()));
+
+    test('has no remote copy before the first upload', async () => {
+        assert.strictEqual(await createSync().fetch(), null);
+    });
+
+    test('creates the folder and uploads a new document', async () => {
+        const sync = createSync();
+        await sync.fetch();
+        await sync.publish(createLibrary('ls'));
+
+        assert.deepStrictEqual(server.requests, [
+            'GET /dav/snippets.json',
+            'PUT /dav/snippets.json If-None-Match *',
+            'MKCOL /dav/',
+            'PUT /dav/snippets.json If-None-Match *',
+            'HEAD /dav/snippets.json'
+        ]);
+        assert.strictEqual((await createSync().fetch())?.snippets[0].code, 'ls');
+    });
+
+    test('uploads changes with the ETag it fetched', async () => {
+        const sync = createSync();
+        await sync.publish(createLibrary('ls'));
+        await sync.fetch();
+        server.requests.length = 0;
+
+        await sync.publish(createLibrary('ls -la'));
+        assert.deepStrictEqual(server.requests.slice(0, 1), ['PUT /dav/snippets.json If-Match "1"']);
+        assert.strictEqual((await createSync().fetch())?.snippets[0].code, 'ls -la');
+    });
+
+    test('refuses to overwrite a document changed by someone else', async () => {
+        const first = createSync();
+        const second = createSync();
+        await first.publish(createLibrary('ls'));
+        await first.fetch();
+        await second.fetch();
+        await second.publish(createLibrary('ls -a'));
+
+        await assert.rejects(first.publish(createLibrary('ls -l')), /changed while syncing/);
+        assert.strictEqual((await createSync().fetch())?.snippets[0].code, 'ls -a');
+    });
+
+    test('refuses to create a document someone else just created', async () => {
+        const first = createSync();
+        const second = createSync();
+        await first.fetch();
+        await second.fetch();
+        await second.publish(createLibrary('ls -a'));
+
+        await assert.rejects(first.publish(createLibrary('ls -l')), /changed while syncing/);
+    });
+
+    test('checks Last-Modified when the server sends no ETag', async () => {
+        server.sendEtags = false;
+        server.sendLastModified = true;
+        const first = createSync();
+        const second = createSync();
+        await first.publish(createLibrary('ls'));
+        await first.fetch();
+        await second.fetch();
+        await second.publish(createLibrary('ls -a'));
+
+        assert.ok(server.requests.includes(`PUT /dav/snippets.json If-Unmodified-Since ${new Date(Date.UTC(2024, 0, 1) + 1000).toUTCString()}`));
+        await assert.rejects(first.publish(createLibrary('ls -l')), /changed while syncing/);
+        await first.fetch();
+        await first.publish(createLibrary('ls -l'));
+        assert.strictEqual((await createSync().fetch())?.snippets[0].code, 'ls -l');
+    });
+
+    test('uploads after a fetch when the server sends neither ETag nor Last-Modified', async () => {
+        server.sendEtags = false;
+        const sync = createSync();
+        await sync.publish(createLibrary('ls'));
+        await sync.fetch();
+        await sync.publish(createLibrary('ls -la'));
+        await sync.fetch();
+        await sync.publish(createLibrary('ls -lah'));
+
+        assert.deepStrictEqual(server.requests.filter(r => r.startsWith('PUT')).slice(-2), ['PUT /dav/snippets.json', 'PUT /dav/snippets.json']);
+        assert.strictEqual((await createSync().fetch())?.snippets[0].code, 'ls -lah');
+    });
+
+    test('reuses an unchanged document and skips unchanged uploads', async () => {
+        const sync = createSync();
+        await sync.publish(createLibrary('ls'));
+        const first = await sync.fetch();
+        server.requests.length = 0;
+
+        assert.deepStrictEqual(await sync.fetch(), first);
+        await sync.publish(createLibrary('ls'));
+        assert.deepStrictEqual(server.requests, ['GET /dav/snippets.json If-None-Match "1"']);
+    });
+
+    test('reports refused credentials', async () => {
+        await assert.rejects(createSync({ username: 'user', password: 'wrong' }).fetch(), /refused access \(HTTP 401\)/);
+        await assert.rejects(new HttpSync(server.url, createSecrets(undefined), store).fetch(), /refused access/);
+    });
+
+    test('sends a password without a username as a bearer token', async () => {
+        server.credentials = 'Bearer token';
+        try {
+            assert.strictEqual(await createSync({ username: '', password: 'token' }).fetch(), null);
+        } finally {
+            server.credentials = 'Basic ' + Buffer.from(`${USER.username}:${USER.password}`).toString('base64');
+        }
+    });
+
+    test('keeps each library in its own document', () => {
+        setConfiguration('snippets.httpUrl', 'https://dav.example.com/snippets');
+        assert.strictEqual(getHttpLibraryUrl(DEFAULT_LIBRARY), 'https://dav.example.com/snippets/snippets.json');
+        assert.strictEqual(getHttpLibraryUrl('work notes'), 'https://dav.example.com/snippets/snippets-work-notes.json');
+        setConfiguration('snippets.httpUrl', undefined);
+        assert.strictEqual(getHttpLibraryUrl(DEFAULT_LIBRARY), undefined);
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { parseCodeSnippets, toCodeSnippets } from '../storage/codeSnippets';
+import { Snippet } from '../storage/types';
+
+function toSnippets(text: string): Snippet[] {
+    return parseCodeSnippets(text, 'test.code-snippets').map((imported, index) => ({
+        ...imported,
+        id: `s${index}`,
+        folderId: 'f',
+        lastModified: 1
+    }));
+}
+
+suite('codeSnippets', () => {
+    test('keeps prefixes and languages through an import and export', () => {
+        const original = {
+            'Print to console': { scope: 'javascript', prefix: 'log', body: ['console.log($1);', '$2'], description: 'Log output' },
+            'Component': { scope: 'javascriptreact', prefix: ['rfc', 'component'], body: ['export const $1 = () => null;'] },
+            'Shebang': { scope: 'shellscript', prefix: 'sb', body: ['#!/bin/sh'] },
+            'Pause': { scope: 'bat', prefix: 'pause', body: ['pause'] }
+        };
+        const snippets = toSnippets(JSON.stringify(original));
+
+        assert.deepStrictEqual(snippets.map(s => s.language), ['javascript', 'react', 'shell', 'batch']);
+        assert.deepStrictEqual(JSON.parse(toCodeSnippets(snippets)), original);
+    });
+
+    test('makes a prefix from the name when there is none', () => {
+        const snippet: Snippet = { id: 's', name: 'Fetch JSON (async)', folderId: 'f', code: 'x', language: 'bash', notes: '', lastModified: 1 };
+        assert.deepStrictEqual(JSON.parse(toCodeSnippets([snippet])), {
+            'Fetch JSON (async)': { scope: 'shellscript', prefix: 'fetch-json-async', body: ['x'] }
+        });
+    });
+
+    test('reads comments and trailing commas', () => {
+        const text = '{\n  // A comment with "quotes"\n  "Any": { "prefix": "any", "body": ["a // not a comment", "b",], /* block */ },\n}';
+        assert.deepStrictEqual(parseCodeSnippets(text, 'test.code-snippets'), [
+            { name: 'Any', code: 'a // not a comment\nb', notes: '', language: 'plaintext', prefix: ['any'] }
+        ]);
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { isEncryptedValue, Keyring } from '../storage/encryption';
+import { answerInputBoxes, EventEmitter, inputPrompts } from './vscode';
+
+function createSecrets(): vscode.SecretStorage {
+    const values = new Map<string, string>();
+    return {
+        get: async key => values.get(key),
+        store: async (key, value) => { values.set(key, value); },
+        delete: async key => { values.delete(key); },
+        onDidChange: new EventEmitter<vscode.SecretStorageChangeEvent>().event
+    };
+}
+
+suite('Keyring', function () {
+    // Deriving a key from a passphrase is deliberately slow
+    this.timeout(10000);
+
+    setup(() => {
+        inputPrompts.length = 0;
+    });
+
+    test('asks to choose a passphrase when nothing is encrypted yet', async () => {
+        const keyring = new Keyring(createSecrets(), async () => undefined);
+        answerInputBoxes('correct horse', 'correct horse');
+
+        const value = await keyring.encrypt('secret');
+        assert.ok(isEncryptedValue(value));
+        assert.strictEqual(await keyring.decrypt(value), 'secret');
+        assert.strictEqual(inputPrompts.length, 2);
+        assert.match(inputPrompts[0], /Choose a passphrase/);
+    });
+
+    test('asks for the existing passphrase after locking', async () => {
+        let existing: string | undefined;
+        const keyring = new Keyring(createSecrets(), async () => existing);
+        answerInputBoxes('correct horse', 'correct horse');
+        existing = await keyring.encrypt('first');
+        await keyring.lock();
+        inputPrompts.length = 0;
+
+        answerInputBoxes('wrong passphrase', 'correct horse');
+        const second = await keyring.encrypt('second');
+        assert.deepStrictEqual(inputPrompts.map(prompt => /Choose/.test(prompt)), [false, false]);
+
+        // Both values use the same passphrase and salt
+        const salt = (value: string) => value.split(':')[2];
+        assert.strictEqual(salt(second), salt(existing));
+        const other = new Keyring(createSecrets(), async () => undefined);
+        answerInputBoxes('correct horse');
+        assert.strictEqual(await other.decrypt(second), 'second');
+    });
+});
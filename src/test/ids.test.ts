@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { Folder, LibraryData, Snippet } from '../storage/types';
+import { findIdCollisions, remapIds } from '../storage/ids';
+
+const folder: Folder = { id: 'folder-1', name: 'Web', parentId: null, type: 'primary', lastModified: 1, version: { deviceA: 1 } };
+const other: Folder = { id: 'folder-2', name: 'Shell', parentId: null, type: 'primary', lastModified: 1, version: { deviceA: 1 } };
+
+const snippet: Snippet = {
+    id: 'snippet-1',
+    name: 'Fetch JSON',
+    folderId: 'folder-1',
+    code: 'const data = await (await fetch(url)).json();',
+    language: 'javascript',
+    notes: '',
+    lastModified: 2,
+    version: { deviceA: 3 }
+};
+
+const existing: LibraryData = { folders: [folder, other], snippets: [snippet] };
+
+function library(folders: Folder[], snippets: Snippet[]): LibraryData {
+    return { folders, snippets };
+}
+
+suite('ids', () => {
+    test('finds no collisions in the same library', () => {
+        assert.deepStrictEqual(findIdCollisions(existing, existing), new Set());
+    });
+
+    test('treats a renamed item as the same item', () => {
+        const incoming = library(
+            [{ ...folder, name: 'Frontend', version: { deviceA: 1, deviceB: 1 } }],
+            [{ ...snippet, name: 'Fetch JSON body', version: undefined }]
+        );
+        assert.deepStrictEqual(findIdCollisions(existing, incoming), new Set());
+    });
+
+    test('treats a moved item as the same item', () => {
+        const incoming = library(
+            [{ ...other, parentId: 'folder-1' }],
+            [{ ...snippet, folderId: 'folder-2', version: undefined }]
+        );
+        assert.deepStrictEqual(findIdCollisions(existing, incoming), new Set());
+    });
+
+    test('treats a renamed and edited snippet with shared history as the same item', () => {
+        const incoming = library([], [{ ...snippet, name: 'Get JSON', code: 'fetch(url)', version: { deviceA: 3, deviceB: 1 } }]);
+        assert.deepStrictEqual(findIdCollisions(existing, incoming), new Set());
+    });
+
+    test('reports unrelated items that share an ID', () => {
+        const incoming = library(
+            [{ ...folder, name: 'Recipes', version: { deviceC: 1 } }],
+            [{ ...snippet, name: 'Untar', folderId: 'folder-2', code: 'tar xzf "$1"', version: { deviceC: 1 } }, { ...snippet, id: 'folder-2' }]
+        );
+        assert.deepStrictEqual(findIdCollisions(existing, incoming), new Set(['folder-1', 'snippet-1', 'folder-2']));
+    });
+
+    test('remaps IDs and the references to them', () => {
+        const incoming = library([folder, { ...other, parentId: 'folder-1' }], [snippet]);
+        const remapped = remapIds(incoming, new Set(['folder-1', 'snippet-1']));
+
+        const [web, shell] = remapped.folders;
+        assert.notStrictEqual(web.id, 'folder-1');
+        assert.strictEqual(shell.id, 'folder-2');
+        assert.strictEqual(shell.parentId, web.id);
+        assert.notStrictEqual(remapped.snippets[0].id, 'snippet-1');
+        assert.strictEqual(remapped.snippets[0].folderId, web.id);
+    });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { Folder, Snippet, Tombstone } from '../storage/types';
+import { decodeLibrary, encodeLibrary, INTERCHANGE_VERSION } from '../storage/interchange';
+
+// `Required` makes these fail to compile when a field is added to the types
+// but not here, so every field is checked to survive the round trip
+const folder: Required<Folder> = {
+    id: 'folder-1',
+    name: 'Web',
+    parentId: 'folder-0',
+    type: 'secondary',
+    lastModified: 1700000000000,
+    order: 3,
+    encrypted: true,
+    localOnly: true,
+    version: { deviceA: 2, deviceB: 1 }
+};
+
+const snippet: Required<Snippet> = {
+    id: 'snippet-1',
+    name: 'Fetch JSON',
+    folderId: 'folder-1',
+    code: 'const data = await (await fetch(url)).json();',
+    language: 'javascript',
+    notes: 'Needs a URL',
+    tags: ['net', 'async'],
+    lastModified: 1700000001000,
+    pinned: true,
+    encrypted: true,
+    prefix: ['fetchjson', 'fj'],
+    version: { deviceA: 5 }
+};
+
+const tombstone: Required<Tombstone> = { id: 'snippet-0', kind: 'snippet', deletedAt: 1700000002000, version: { deviceB: 4 } };
+
+// Goes through JSON like every file the codec writes
+function roundTrip(content: unknown): unknown {
+    return JSON.parse(JSON.stringify(content));
+}
+
+suite('interchange', () => {
+    test('keeps every folder, snippet and tombstone field', () => {
+        const data = { folders: [folder], snippets: [snippet], tombstones: [tombstone], localOnlyFolders: ['folder-1'] };
+        assert.deepStrictEqual(decodeLibrary(roundTrip(encodeLibrary(data)), 'test'), data);
+    });
+
+    test('leaves unset optional fields out', () => {
+        const plainFolder: Folder = { id: 'f', name: 'F', parentId: null, type: 'primary', lastModified: 1 };
+        const plainSnippet: Snippet = { id: 's', name: 'S', folderId: 'f', code: '', language: 'plaintext', notes: '', lastModified: 2 };
+        const decoded = decodeLibrary(roundTrip(encodeLibrary({ folders: [plainFolder], snippets: [plainSnippet] })), 'test');
+
+        assert.deepStrictEqual(decoded.folders, [plainFolder]);
+        assert.deepStrictEqual(decoded.snippets, [{ ...plainSnippet, tags: [], pinned: false }]);
+        assert.deepStrictEqual(decoded.tombstones, []);
+        assert.strictEqual('localOnlyFolders' in decoded, false);
+    });
+
+    test('writes the current format version', () => {
+        const file = encodeLibrary({ folders: [], snippets: [] });
+        assert.strictEqual(file.format, 'vs-snippets');
+        assert.strictEqual(file.version, INTERCHANGE_VERSION);
+    });
+
+    suite('legacy shapes', () => {
+        const legacyFolder = { id: 'f', name: 'F', parentId: null, type: 'folder', lastModified: 1 };
+        const legacySnippet = { id: 's', name: 'S', folderId: 'f', code: 'echo', language: 'shell', lastModified: 2 };
+        const expected = {
+            folders: [{ id: 'f', name: 'F', parentId: null, type: 'primary', lastModified: 1 }],
+            snippets: [{ id: 's', name: 'S', folderId: 'f', code: 'echo', language: 'shell', notes: '', lastModified: 2 }],
+            tombstones: []
+        };
+
+        test('reads backup files with a flat data array', () => {
+            assert.deepStrictEqual(decodeLibrary({ version: '1.0', data: [legacyFolder, legacySnippet] }, 'test'), expected);
+        });
+
+        test('reads exportData files', () => {
+            assert.deepStrictEqual(decodeLibrary({ version: '1.0', data: { folders: [legacyFolder], snippets: [legacySnippet] } }, 'test'), expected);
+        });
+
+        test('reads bare folders and snippets', () => {
+            assert.deepStrictEqual(decodeLibrary({ folders: [legacyFolder], snippets: [legacySnippet] }, 'test'), expected);
+        });
+
+        test('reads early array exports', () => {
+            assert.deepStrictEqual(decodeLibrary([legacyFolder, legacySnippet], 'test'), expected);
+        });
+
+        test('keeps the fields a legacy file has', () => {
+            const decoded = decodeLibrary({ folders: [{ ...legacyFolder, order: 2 }], snippets: [{ ...legacySnippet, tags: ['x'], pinned: true }] }, 'test');
+            assert.strictEqual(decoded.folders[0].order, 2);
+            assert.deepStrictEqual(decoded.snippets[0].tags, ['x']);
+            assert.strictEqual(decoded.snippets[0].pinned, true);
+        });
+    });
+
+    test('rejects files from a newer version', () => {
+        const file = { ...encodeLibrary({ folders: [], snippets: [] }), version: INTERCHANGE_VERSION + 1 };
+        assert.throws(() => decodeLibrary(file, 'The file'), /format version/);
+    });
+
+    test('rejects content that is not a library', () => {
+        assert.throws(() => decodeLibrary({ hello: 'world' }, 'The file'), /not a snippet library/);
+        assert.throws(() => decodeLibrary({ folders: [{ name: 'No ID' }] }, 'The file'), /invalid folder at index 0/);
+        assert.throws(() => decodeLibrary({ snippets: [{ id: 's', name: 'S' }] }, 'The file'), /invalid snippet at index 0/);
+    });
+});
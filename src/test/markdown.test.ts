@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { parseMarkdown, toMarkdown } from '../storage/markdown';
+import { LibraryData } from '../storage/types';
+
+const library: LibraryData = {
+    folders: [
+        { id: 'web', name: 'Web', parentId: null, type: 'primary', lastModified: 1, order: 0 },
+        { id: 'react', name: 'React', parentId: 'web', type: 'primary', lastModified: 1 }
+    ],
+    snippets: [
+        {
+            id: 'fetch',
+            name: 'Fetch',
+            folderId: 'web',
+            code: 'const fence = "```";\nfetch(url);',
+            language: 'javascript',
+            notes: '# Not a heading\nTags: not tags\n\n> Quoted\n```\nnot code\n```',
+            tags: ['net', 'async'],
+            lastModified: 1
+        },
+        { id: 'hook', name: 'Hook', folderId: 'react', code: 'useEffect(() => {});', language: 'plaintext', notes: '', tags: [], lastModified: 1 }
+    ]
+};
+
+suite('markdown', () => {
+    test('reads back what it writes', () => {
+        const parsed = parseMarkdown(toMarkdown(library, null), null, 'Imported');
+
+        assert.deepStrictEqual(parsed.folders.map(f => f.name), ['Web', 'React']);
+        assert.strictEqual(parsed.folders[1].parentId, parsed.folders[0].id);
+        assert.deepStrictEqual(
+            parsed.snippets.map(({ name, code, language, notes, tags }) => ({ name, code, language, notes, tags })),
+            library.snippets.map(({ name, code, language, notes, tags }) => ({ name, code, language, notes, tags }))
+        );
+        assert.strictEqual(parsed.snippets[1].folderId, parsed.folders[1].id);
+    });
+
+    test('reads code blocks from any Markdown', () => {
+        const text = 'Intro\n```py\nprint(1)\n```\n# Only text\ntext\n## Setup\n~~~bash\nls\n~~~\n```\necho\n```\n';
+        const parsed = parseMarkdown(text, null, 'README');
+
+        assert.deepStrictEqual(parsed.folders.map(f => f.name), ['README', 'Only text']);
+        assert.deepStrictEqual(parsed.snippets.map(s => [s.name, s.language, s.code]), [
+            ['Snippet 1', 'python', 'print(1)'],
+            ['Setup', 'bash', 'ls'],
+            ['Setup (2)', 'plaintext', 'echo']
+        ]);
+    });
+});
@@ -0,0 +1,9 @@
+import * as path from 'path';
+
+// The tests run in plain Node rather than in VS Code, so modules that import
+// `vscode` get the stand-in next to this file
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+    return resolveFilename.call(this, request === 'vscode' ? path.join(__dirname, 'vscode') : request, ...rest);
+};
@@ -0,0 +1,46 @@
+// The parts of the VS Code API the tested modules use at runtime
+
+export class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+    };
+
+    fire(value: T): void {
+        this.listeners.forEach(listener => listener(value));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+const settings = new Map<string, unknown>();
+
+// Tests set settings with this, e.g. setConfiguration('snippets.httpUrl', '...')
+export function setConfiguration(key: string, value: unknown): void {
+    settings.set(key, value);
+}
+
+export const workspace = {
+    getConfiguration: (section: string) => ({
+        get: <T>(key: string): T | undefined => settings.get(`${section}.${key}`) as T | undefined
+    })
+};
+
+// Answers for the next input boxes, in order; prompts are recorded in `inputPrompts`
+const inputAnswers: (string | undefined)[] = [];
+export const inputPrompts: string[] = [];
+
+export function answerInputBoxes(...answers: (string | undefined)[]): void {
+    inputAnswers.push(...answers);
+}
+
+export const window = {
+    showInputBox: async (options: { prompt?: string }): Promise<string | undefined> => {
+        inputPrompts.push(options.prompt || '');
+        return inputAnswers.shift();
+    }
+};